@@ -0,0 +1,229 @@
+import {
+  Directive,
+  Input,
+  HostListener,
+  ElementRef,
+  Renderer2,
+  Injector,
+  OnInit,
+  OnChanges,
+  effect,
+  inject,
+  signal,
+  afterNextRender
+} from '@angular/core';
+import { GridNavigationService } from '../services/grid-navigation.service';
+import { CellSelectionService } from '../services/cell-selection.service';
+import { VirtualizationService } from '../services/virtualization.service';
+
+@Directive({
+  selector: '[hdGrid]',
+  standalone: true,
+  providers: [GridNavigationService]
+})
+export class HdGridDirective implements OnInit, OnChanges {
+  @Input('hdGridLabel') label?: string;
+  @Input('hdGridHasHeader') hasHeader = true;
+  @Input('hdGridPageSize') pageSize = 10;
+  @Input('hdGridScrollContainer') scrollContainer?: HTMLElement;
+
+  private navigation = inject(GridNavigationService);
+  private selectionService = inject(CellSelectionService, { optional: true });
+  private virtualization = inject(VirtualizationService, { optional: true });
+  private el = inject(ElementRef);
+  private renderer = inject(Renderer2);
+  private injector = inject(Injector);
+
+  constructor() {
+    // Counts cover every row, not only the slice rendered by virtualization
+    effect(() => {
+      const element = this.el.nativeElement;
+      this.renderer.setAttribute(element, 'aria-rowcount', String(this.navigation.ariaRowCount()));
+      this.renderer.setAttribute(element, 'aria-colcount', String(this.navigation.ariaColCount()));
+    });
+  }
+
+  @HostListener('keydown', ['$event'])
+  onKeydown(event: KeyboardEvent) {
+    if (event.defaultPrevented) {
+      // hdCellSelectable already moved the selection; follow it unless a range is being extended
+      const focus = this.selectionService?.focus();
+      if (focus && !event.shiftKey && event.key.startsWith('Arrow')) {
+        this.navigation.setActiveCell(focus.rowIndex, focus.columnIndex);
+        this.focusActiveCell();
+      }
+      return;
+    }
+
+    const ctrl = event.ctrlKey || event.metaKey;
+
+    switch (event.key) {
+      case 'ArrowUp':
+        this.navigation.moveBy(-1, 0);
+        break;
+      case 'ArrowDown':
+        this.navigation.moveBy(1, 0);
+        break;
+      case 'ArrowLeft':
+        this.navigation.moveBy(0, -1);
+        break;
+      case 'ArrowRight':
+        this.navigation.moveBy(0, 1);
+        break;
+      case 'Home':
+        if (ctrl) {
+          this.navigation.moveToFirstCell();
+        } else {
+          this.navigation.moveToRowStart();
+        }
+        break;
+      case 'End':
+        if (ctrl) {
+          this.navigation.moveToLastCell();
+        } else {
+          this.navigation.moveToRowEnd();
+        }
+        break;
+      case 'PageUp':
+        this.navigation.moveBy(-this.getPageSize(), 0);
+        break;
+      case 'PageDown':
+        this.navigation.moveBy(this.getPageSize(), 0);
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    this.focusActiveCell();
+  }
+
+  ngOnInit() {
+    this.setupAccessibility();
+  }
+
+  ngOnChanges() {
+    this.navigation.setHasHeader(this.hasHeader);
+  }
+
+  focusActiveCell() {
+    const active = this.navigation.tabStop();
+    const cell = this.findCell(active.rowIndex, active.columnIndex);
+
+    if (cell) {
+      cell.focus();
+      return;
+    }
+
+    // The row is outside the rendered slice: scroll it in and focus after rendering
+    if (this.virtualization && active.rowIndex >= 0) {
+      const position = this.virtualization.scrollToItemIfNeeded(active.rowIndex);
+      if (position !== null) {
+        (this.scrollContainer ?? this.el.nativeElement).scrollTop = position;
+      }
+
+      afterNextRender(() => {
+        this.findCell(active.rowIndex, active.columnIndex)?.focus();
+      }, { injector: this.injector });
+    }
+  }
+
+  private setupAccessibility() {
+    const element = this.el.nativeElement;
+    this.renderer.setAttribute(element, 'role', 'grid');
+    if (this.label) {
+      this.renderer.setAttribute(element, 'aria-label', this.label);
+    }
+    if (this.selectionService) {
+      this.renderer.setAttribute(element, 'aria-multiselectable', 'true');
+    }
+  }
+
+  private findCell(rowIndex: number, columnIndex: number): HTMLElement | null {
+    const ariaRowIndex = this.navigation.getAriaRowIndex(rowIndex);
+    return this.el.nativeElement.querySelector(
+      `[aria-rowindex="${ariaRowIndex}"] [aria-colindex="${columnIndex + 1}"]`
+    );
+  }
+
+  private getPageSize(): number {
+    return this.virtualization?.state().visibleItems || this.pageSize;
+  }
+}
+
+@Directive({
+  selector: '[hdGridRow]',
+  standalone: true
+})
+export class HdGridRowDirective implements OnChanges {
+  // Index in the processed rows, or 'header' for the column header row
+  @Input('hdGridRow') rowIndex: number | 'header' = 'header';
+
+  private navigation = inject(GridNavigationService, { optional: true });
+  private el = inject(ElementRef);
+  private renderer = inject(Renderer2);
+  private _index = signal<number>(-1);
+
+  // Signal-backed so cells update their tabindex when a row is reused for another index
+  get index(): number {
+    return this._index();
+  }
+
+  ngOnChanges() {
+    this._index.set(typeof this.rowIndex === 'number' ? this.rowIndex : -1);
+
+    const element = this.el.nativeElement;
+    this.renderer.setAttribute(element, 'role', 'row');
+    if (this.navigation) {
+      this.renderer.setAttribute(element, 'aria-rowindex', String(this.navigation.getAriaRowIndex(this.index)));
+    }
+  }
+}
+
+@Directive({
+  selector: '[hdGridCell]',
+  standalone: true
+})
+export class HdGridCellDirective implements OnInit, OnChanges {
+  @Input('hdGridCell') column!: string | number;
+
+  private navigation = inject(GridNavigationService, { optional: true });
+  private row = inject(HdGridRowDirective, { optional: true });
+  private el = inject(ElementRef);
+  private renderer = inject(Renderer2);
+
+  constructor() {
+    // Roving tabindex: only the active cell is reachable with Tab
+    effect(() => this.updateTabIndex());
+  }
+
+  @HostListener('focusin')
+  onFocusIn() {
+    if (!this.navigation || !this.row) return;
+    if (!this.navigation.isTabStop(this.row.index, this.getColumnIndex())) {
+      this.navigation.setActiveCell(this.row.index, this.getColumnIndex());
+    }
+  }
+
+  ngOnInit() {
+    const role = this.row && this.row.index < 0 ? 'columnheader' : 'gridcell';
+    this.renderer.setAttribute(this.el.nativeElement, 'role', role);
+  }
+
+  ngOnChanges() {
+    this.renderer.setAttribute(this.el.nativeElement, 'aria-colindex', String(this.getColumnIndex() + 1));
+    this.updateTabIndex();
+  }
+
+  private updateTabIndex() {
+    if (!this.navigation || !this.row) return;
+
+    const isTabStop = this.navigation.isTabStop(this.row.index, this.getColumnIndex());
+    this.renderer.setAttribute(this.el.nativeElement, 'tabindex', isTabStop ? '0' : '-1');
+  }
+
+  private getColumnIndex(): number {
+    if (typeof this.column === 'number') return this.column;
+    return this.navigation ? this.navigation.getColumnIndex(this.column) : -1;
+  }
+}
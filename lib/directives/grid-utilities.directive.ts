@@ -1,5 +1,7 @@
-import { Directive, Input, HostListener, inject, ElementRef, Renderer2, OnInit, OnDestroy } from '@angular/core';
+import { Directive, Input, HostListener, inject, ElementRef, Renderer2, OnInit, OnDestroy, effect } from '@angular/core';
 import { GridStateService } from '../services/grid-state.service';
+import { CellSelectionService } from '../services/cell-selection.service';
+import { ClipboardService } from '../services/clipboard.service';
 
 @Directive({
   selector: '[hdSortable]',
@@ -105,6 +107,124 @@ export class HdSelectableDirective implements OnInit {
   }
 }
 
+// Cell state is bound on the host from the selection service's shared lookup
+@Directive({
+  selector: '[hdCellSelectable]',
+  standalone: true,
+  host: {
+    '[attr.aria-selected]': 'ariaSelected',
+    '[attr.data-cell-focused]': 'cellFocused'
+  }
+})
+export class HdCellSelectableDirective implements OnInit {
+  @Input('hdCellSelectable') rowIndex!: number;
+  @Input('hdCellColumn') column!: string | number;
+
+  private selectionService = inject(CellSelectionService, { optional: true });
+  private clipboardService = inject(ClipboardService, { optional: true });
+  private el = inject(ElementRef);
+  private renderer = inject(Renderer2);
+
+  get ariaSelected(): string | null {
+    if (!this.selectionService) return null;
+    return String(this.selectionService.isCellSelected(this.rowIndex, this.getColumnIndex()));
+  }
+
+  get cellFocused(): string | null {
+    if (!this.selectionService) return null;
+    return this.selectionService.isCellFocused(this.rowIndex, this.getColumnIndex()) ? 'true' : null;
+  }
+
+  @HostListener('mousedown', ['$event'])
+  onMouseDown(event: MouseEvent) {
+    if (!this.selectionService || event.button !== 0) return;
+
+    // Prevent text selection while dragging across cells
+    event.preventDefault();
+    this.el.nativeElement.focus?.();
+
+    const mode = event.shiftKey ? 'extend' : (event.ctrlKey || event.metaKey) ? 'add' : 'replace';
+    this.selectionService.beginDrag(this.rowIndex, this.getColumnIndex(), mode);
+  }
+
+  @HostListener('mouseenter')
+  onMouseEnter() {
+    this.selectionService?.dragTo(this.rowIndex, this.getColumnIndex());
+  }
+
+  @HostListener('copy', ['$event'])
+  onCopy(event: ClipboardEvent) {
+    this.clipboardService?.writeToEvent(event);
+  }
+
+  @HostListener('paste', ['$event'])
+  onPaste(event: ClipboardEvent) {
+    this.clipboardService?.readFromEvent(event);
+  }
+
+  @HostListener('keydown', ['$event'])
+  onKeydown(event: KeyboardEvent) {
+    if (!this.selectionService) return;
+
+    // Keyboard extension starts from this cell when nothing is focused yet
+    if (!this.selectionService.focus()) {
+      this.selectionService.selectCell(this.rowIndex, this.getColumnIndex());
+    }
+
+    const ctrl = event.ctrlKey || event.metaKey;
+
+    switch (event.key) {
+      case 'ArrowUp':
+        this.selectionService.moveFocus(-1, 0, event.shiftKey);
+        break;
+      case 'ArrowDown':
+        this.selectionService.moveFocus(1, 0, event.shiftKey);
+        break;
+      case 'ArrowLeft':
+        this.selectionService.moveFocus(0, -1, event.shiftKey);
+        break;
+      case 'ArrowRight':
+        this.selectionService.moveFocus(0, 1, event.shiftKey);
+        break;
+      case 'a':
+      case 'A':
+        if (!ctrl) return;
+        this.selectionService.selectAll();
+        break;
+      case ' ':
+        if (!ctrl) return;
+        this.selectionService.selectColumn(this.selectionService.focus()!.columnIndex);
+        break;
+      case 'Escape':
+        this.selectionService.clear();
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+  }
+
+  ngOnInit() {
+    this.setupAccessibility();
+  }
+
+  private setupAccessibility() {
+    const element = this.el.nativeElement;
+    this.renderer.setAttribute(element, 'role', 'gridcell');
+    if (!element.hasAttribute('tabindex')) {
+      this.renderer.setAttribute(element, 'tabindex', '-1');
+    }
+  }
+
+  private getColumnIndex(): number {
+    if (!this.selectionService) return -1;
+    return typeof this.column === 'number'
+      ? this.column
+      : this.selectionService.getColumnIndex(this.column);
+  }
+}
+
 @Directive({
   selector: '[hdFilterable]',
   standalone: true
@@ -163,33 +283,43 @@ export class HdPaginationDirective implements OnInit {
   private el = inject(ElementRef);
   private renderer = inject(Renderer2);
 
+  constructor() {
+    // Unreachable targets are disabled; in cursor mode that includes 'last' and distant pages
+    effect(() => {
+      if (!this.gridService) return;
+
+      const element = this.el.nativeElement;
+      const pagination = this.gridService.pagination();
+      const isCurrent = this.action === 'page' && this.pageNumber === pagination.currentPage;
+
+      this.renderer.setAttribute(element, 'aria-disabled', String(!isCurrent && !this.canNavigate()));
+      if (isCurrent) {
+        this.renderer.setAttribute(element, 'aria-current', 'page');
+      } else {
+        this.renderer.removeAttribute(element, 'aria-current');
+      }
+    });
+  }
+
   @HostListener('click', ['$event'])
   onClick(event: Event) {
-    if (!this.gridService) return;
-
-    const pagination = this.gridService.state().pagination;
+    if (!this.gridService || !this.canNavigate()) return;
 
     switch (this.action) {
       case 'first':
-        this.gridService.setPage(1);
+        this.gridService.firstPage();
         break;
       case 'prev':
-        if (pagination.currentPage > 1) {
-          this.gridService.setPage(pagination.currentPage - 1);
-        }
+        this.gridService.previousPage();
         break;
       case 'next':
-        if (pagination.currentPage < pagination.totalPages) {
-          this.gridService.setPage(pagination.currentPage + 1);
-        }
+        this.gridService.nextPage();
         break;
       case 'last':
-        this.gridService.setPage(pagination.totalPages);
+        this.gridService.lastPage();
         break;
       case 'page':
-        if (this.pageNumber) {
-          this.gridService.setPage(this.pageNumber);
-        }
+        this.gridService.setPage(this.pageNumber!);
         break;
     }
   }
@@ -231,4 +361,24 @@ export class HdPaginationDirective implements OnInit {
     
     this.renderer.setAttribute(element, 'aria-label', ariaLabel);
   }
+
+  private canNavigate(): boolean {
+    const gridService = this.gridService!;
+    const pagination = gridService.pagination();
+
+    switch (this.action) {
+      case 'first':
+        return gridService.canGoToPage(1);
+      case 'prev':
+        return gridService.canGoToPage(pagination.currentPage - 1);
+      case 'next':
+        return gridService.canGoToPage(pagination.currentPage + 1);
+      case 'last':
+        return pagination.mode !== 'cursor' && gridService.canGoToPage(pagination.totalPages);
+      case 'page':
+        return !!this.pageNumber && gridService.canGoToPage(this.pageNumber);
+      default:
+        return false;
+    }
+  }
 } 
\ No newline at end of file
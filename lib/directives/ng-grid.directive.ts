@@ -13,11 +13,22 @@ import {
   inject
 } from '@angular/core';
 import { GridStateService } from '../services/grid-state.service';
+import { CellEditingService } from '../services/cell-editing.service';
+import { GridHistoryService } from '../services/grid-history.service';
+import { CellSelectionService } from '../services/cell-selection.service';
+import { ClipboardService } from '../services/clipboard.service';
+import { VirtualizationService } from '../services/virtualization.service';
 import { GridColumn, GridOptions, GridContext } from '../interfaces/grid.interface';
+import { EditingConfig, HistoryConfig, PivotConfig, CellSelectMode, ClipboardConfig } from '../interfaces/advanced-grid.interface';
 
 export class NgGridContext<T = any> implements GridContext<T> {
   constructor(
-    private gridService: GridStateService<T>
+    private gridService: GridStateService<T>,
+    private editingService: CellEditingService<T>,
+    private historyService: GridHistoryService<T>,
+    private cellSelectionService: CellSelectionService<T>,
+    private clipboardService: ClipboardService<T>,
+    private virtualizationService: VirtualizationService<T>
   ) {}
 
   get state() { return this.gridService.state(); }
@@ -25,6 +36,17 @@ export class NgGridContext<T = any> implements GridContext<T> {
   get rows() { return this.state.processedRows; }
   get pagination() { return this.state.pagination; }
 
+  // The rendered window of rows when enableVirtualization is set, otherwise all processed rows
+  get visibleRows() {
+    return this.gridService.isVirtualized()
+      ? this.virtualizationService.getVisibleItems(this.rows)
+      : this.rows;
+  }
+
+  get virtualization() { return this.virtualizationService.state(); }
+  get pinnedTopRows() { return this.gridService.pinnedTopRows(); }
+  get pinnedBottomRows() { return this.gridService.pinnedBottomRows(); }
+
   sortBy = (columnId: string, direction?: 'asc' | 'desc') => 
     this.gridService.sortBy(columnId, direction);
   
@@ -49,6 +71,12 @@ export class NgGridContext<T = any> implements GridContext<T> {
   setPageSize = (size: number) => 
     this.gridService.setPageSize(size);
   
+  nextPage = () => 
+    this.gridService.nextPage();
+  
+  previousPage = () => 
+    this.gridService.previousPage();
+  
   selectRow = (rowId: string | number, selected?: boolean) => 
     this.gridService.selectRow(rowId, selected);
   
@@ -61,6 +89,133 @@ export class NgGridContext<T = any> implements GridContext<T> {
   clearSelection = () => 
     this.gridService.clearSelection();
   
+  groupBy = (columnIds: string | string[]) => 
+    this.gridService.groupBy(columnIds);
+  
+  ungroup = (columnId?: string) => 
+    this.gridService.ungroup(columnId);
+  
+  toggleGroup = (groupId: string) => 
+    this.gridService.toggleGroup(groupId);
+  
+  isGroupExpanded = (groupId: string) => 
+    this.gridService.isGroupExpanded(groupId);
+  
+  getAggregate = (columnId: string, fn: string, scope?: 'total' | 'page') => 
+    this.gridService.getAggregate(columnId, fn, scope);
+  
+  setPivot = (config: PivotConfig<T> | null) => 
+    this.gridService.setPivot(config);
+  
+  toggleTreeNode = (rowId: string | number) => 
+    this.gridService.toggleTreeNode(rowId);
+  
+  expandAll = () => 
+    this.gridService.expandAll();
+  
+  collapseAll = () => 
+    this.gridService.collapseAll();
+  
+  isRowExpanded = (rowId: string | number) => 
+    this.gridService.isRowExpanded(rowId);
+  
+  expandRow = (rowId: string | number) => 
+    this.gridService.expandRow(rowId);
+  
+  collapseRow = (rowId: string | number) => 
+    this.gridService.collapseRow(rowId);
+  
+  toggleRowExpansion = (rowId: string | number) => 
+    this.gridService.toggleRowExpansion(rowId);
+  
+  isDetailExpanded = (rowId: string | number) => 
+    this.gridService.isDetailExpanded(rowId);
+  
+  getDetailState = (rowId: string | number) => 
+    this.gridService.getDetailState(rowId);
+  
+  pinRow = (rowId: string | number, position: 'top' | 'bottom') => 
+    this.gridService.pinRow(rowId, position);
+  
+  unpinRow = (rowId: string | number) => 
+    this.gridService.unpinRow(rowId);
+  
+  getRowPinPosition = (rowId: string | number) => 
+    this.gridService.getRowPinPosition(rowId);
+  
+  get pendingChanges() { return this.editingService.pendingChanges(); }
+
+  startEdit = (rowId: string | number, columnId: string) => 
+    this.editingService.startEdit(rowId, columnId);
+  
+  setEditValue = (rowId: string | number, columnId: string, value: any) => 
+    this.editingService.setEditValue(rowId, columnId, value);
+  
+  commitEdit = (rowId: string | number, columnId: string) => 
+    this.editingService.commitEdit(rowId, columnId);
+  
+  cancelEdit = (rowId: string | number, columnId: string) => 
+    this.editingService.cancelEdit(rowId, columnId);
+  
+  startRowEdit = (rowId: string | number) => 
+    this.editingService.startRowEdit(rowId);
+  
+  commitRowEdit = (rowId: string | number) => 
+    this.editingService.commitRowEdit(rowId);
+  
+  cancelRowEdit = (rowId: string | number) => 
+    this.editingService.cancelRowEdit(rowId);
+  
+  isEditing = (rowId: string | number, columnId?: string) => 
+    this.editingService.isEditing(rowId, columnId);
+  
+  getEdit = (rowId: string | number, columnId: string) => 
+    this.editingService.getEdit(rowId, columnId);
+  
+  isCellDirty = (rowId: string | number, columnId: string) => 
+    this.editingService.isCellDirty(rowId, columnId);
+  
+  isRowSaving = (rowId: string | number) => 
+    this.editingService.isRowSaving(rowId);
+  
+  get canUndo() { return this.historyService.canUndo; }
+  get canRedo() { return this.historyService.canRedo; }
+
+  undo = () => 
+    this.historyService.undo();
+  
+  redo = () => 
+    this.historyService.redo();
+  
+  transaction = (fn: () => void, label?: string) => 
+    this.historyService.transaction(fn, label);
+  
+  get cellRanges() { return this.cellSelectionService.ranges; }
+
+  selectCell = (rowIndex: number, columnIndex: number, mode?: CellSelectMode) => 
+    this.cellSelectionService.selectCell(rowIndex, columnIndex, mode);
+  
+  selectColumn = (column: string | number, add?: boolean) => 
+    this.cellSelectionService.selectColumn(column, add);
+  
+  selectAllCells = () => 
+    this.cellSelectionService.selectAll();
+  
+  clearCellSelection = () => 
+    this.cellSelectionService.clear();
+  
+  isCellSelected = (rowIndex: number, columnIndex: number) => 
+    this.cellSelectionService.isCellSelected(rowIndex, columnIndex);
+  
+  getSelectedValues = () => 
+    this.cellSelectionService.getSelectedValues();
+  
+  copySelection = () => 
+    this.clipboardService.copy();
+  
+  pasteText = (text: string) => 
+    this.clipboardService.pasteText(text);
+  
   refresh = () => 
     this.gridService.refresh();
   
@@ -74,12 +229,22 @@ export class NgGridContext<T = any> implements GridContext<T> {
 @Directive({
   selector: '[ngGrid]',
   standalone: true,
-  providers: [GridStateService]
+  providers: [
+    GridStateService,
+    CellEditingService,
+    GridHistoryService,
+    CellSelectionService,
+    ClipboardService,
+    VirtualizationService
+  ]
 })
 export class NgGridDirective<T = any> implements OnInit, OnChanges, OnDestroy {
   @Input('ngGridOf') data: T[] = [];
   @Input('ngGridColumns') columns: GridColumn<T>[] = [];
   @Input('ngGridOptions') options: GridOptions<T> = {};
+  @Input('ngGridEditing') editing: EditingConfig<T> = {};
+  @Input('ngGridHistory') history?: HistoryConfig;
+  @Input('ngGridClipboard') clipboard: ClipboardConfig = {};
 
   private context: NgGridContext<T>;
   private destroyRef = inject(DestroyRef);
@@ -87,13 +252,30 @@ export class NgGridDirective<T = any> implements OnInit, OnChanges, OnDestroy {
   constructor(
     private templateRef: TemplateRef<NgGridContext<T>>,
     private viewContainer: ViewContainerRef,
-    private gridService: GridStateService<T>
+    private gridService: GridStateService<T>,
+    private editingService: CellEditingService<T>,
+    private historyService: GridHistoryService<T>,
+    private cellSelectionService: CellSelectionService<T>,
+    private clipboardService: ClipboardService<T>,
+    private virtualizationService: VirtualizationService<T>
   ) {
-    this.context = new NgGridContext(this.gridService);
+    this.context = new NgGridContext(
+      this.gridService,
+      this.editingService,
+      this.historyService,
+      this.cellSelectionService,
+      this.clipboardService,
+      this.virtualizationService
+    );
   }
 
   ngOnInit() {
     this.initialize();
+    this.editingService.initialize(this.editing);
+    this.clipboardService.initialize(this.clipboard);
+    if (this.history) {
+      this.historyService.initialize(this.history);
+    }
     this.setupAutoRender();
   }
 
@@ -101,6 +283,15 @@ export class NgGridDirective<T = any> implements OnInit, OnChanges, OnDestroy {
     if (changes['data'] || changes['columns'] || changes['options']) {
       this.initialize();
     }
+    if (changes['editing']) {
+      this.editingService.initialize(this.editing);
+    }
+    if (changes['clipboard']) {
+      this.clipboardService.initialize(this.clipboard);
+    }
+    if (changes['history'] && this.history) {
+      this.historyService.initialize(this.history);
+    }
   }
 
   ngOnDestroy() {
@@ -111,13 +302,19 @@ export class NgGridDirective<T = any> implements OnInit, OnChanges, OnDestroy {
     if (this.data && this.columns.length > 0) {
       this.gridService.initialize(this.data, this.columns, this.options);
     }
+    if (this.options.enableVirtualization) {
+      this.virtualizationService.setItemHeight(this.options.virtualItemHeight ?? 40);
+      this.virtualizationService.setOverscan(this.options.virtualOverscan ?? 5);
+    }
   }
 
   private setupAutoRender() {
     // Auto-render when state changes
     effect(() => {
       const state = this.gridService.state();
-      if (state.data.length > 0 && state.columns.length > 0) {
+      // Server-side grids render while empty so loading and error states can be shown
+      const hasData = state.data.length > 0 || this.gridService.isServerSide();
+      if (hasData && state.columns.length > 0) {
         this.render();
       }
     });
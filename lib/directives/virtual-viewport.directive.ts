@@ -0,0 +1,171 @@
+import {
+  Directive,
+  Input,
+  Output,
+  EventEmitter,
+  ElementRef,
+  NgZone,
+  OnInit,
+  OnChanges,
+  OnDestroy,
+  computed,
+  effect,
+  inject,
+  signal,
+  untracked
+} from '@angular/core';
+import { GridRow } from '../interfaces/grid.interface';
+import { GridStateService } from '../services/grid-state.service';
+import { VirtualizationService } from '../services/virtualization.service';
+
+// Scroll container for virtualized rows. Scroll events are handled outside the Angular zone
+// and applied at most once per animation frame; container resizes update the viewport size.
+@Directive({
+  selector: '[hdVirtualViewport]',
+  standalone: true,
+  exportAs: 'hdVirtualViewport',
+  host: {
+    '[style.overflow]': '"auto"',
+    '[style.position]': '"relative"'
+  }
+})
+export class HdVirtualViewportDirective<T = any> implements OnInit, OnChanges, OnDestroy {
+  // Rows to virtualize; defaults to the grid's processed rows
+  @Input('hdVirtualViewport') items?: GridRow<T>[] | '';
+  @Input('hdVirtualItemHeight') itemHeight?: number;
+  @Input('hdVirtualOverscan') overscan?: number;
+
+  @Output() rangeChange = new EventEmitter<{ start: number; end: number }>();
+
+  private virtualization = inject<VirtualizationService<T>>(VirtualizationService);
+  private gridService = inject<GridStateService<T>>(GridStateService, { optional: true });
+  private el = inject(ElementRef);
+  private ngZone = inject(NgZone);
+
+  private frame: number | null = null;
+  private resizeObserver?: ResizeObserver;
+  private removeScrollListener?: () => void;
+
+  private _items = signal<GridRow<T>[] | null>(null);
+
+  private sourceRows = computed<GridRow<T>[]>(() =>
+    this._items() ?? this.gridService?.processedRows() ?? []
+  );
+
+  // Rows in the rendered window, including overscan
+  rows = computed<GridRow<T>[]>(() => this.virtualization.getVisibleItems(this.sourceRows()));
+
+  state = computed(() => this.virtualization.state());
+
+  constructor() {
+    // Keep the item count and detail panel heights in step with the rows
+    effect(() => {
+      const rows = this.sourceRows();
+      const detailHeights = this.gridService && !this._items() ? this.gridService.detailRowHeights() : null;
+
+      untracked(() => {
+        if (this.virtualization.isVariableHeight()) {
+          this.virtualization.setItems(rows.map(row => row.data));
+        } else {
+          this.virtualization.setTotalItems(rows.length);
+        }
+        if (detailHeights) {
+          this.virtualization.setDetailHeights(detailHeights);
+        }
+      });
+    });
+
+    // Pinned grid rows take space away from the scrolling body
+    effect(() => {
+      if (!this.gridService) return;
+
+      const top = this.gridService.pinnedTopRows().length;
+      const bottom = this.gridService.pinnedBottomRows().length;
+      untracked(() => this.virtualization.setPinnedRowCounts(top, bottom));
+    });
+  }
+
+  get contentStyles(): Record<string, string> {
+    return this.virtualization.getContentStyles();
+  }
+
+  get itemsStyles(): Record<string, string> {
+    return this.virtualization.getVisibleItemsStyles();
+  }
+
+  ngOnInit() {
+    const element: HTMLElement = this.el.nativeElement;
+
+    this.ngZone.runOutsideAngular(() => {
+      const onScroll = () => this.scheduleScroll();
+      element.addEventListener('scroll', onScroll, { passive: true });
+      this.removeScrollListener = () => element.removeEventListener('scroll', onScroll);
+
+      if (typeof ResizeObserver !== 'undefined') {
+        this.resizeObserver = new ResizeObserver(entries => {
+          const { height, width } = entries[entries.length - 1].contentRect;
+          this.ngZone.run(() => {
+            this.virtualization.setContainerHeight(height);
+            this.virtualization.setContainerWidth(width);
+          });
+        });
+        this.resizeObserver.observe(element);
+      }
+    });
+
+    if (element.clientHeight > 0) {
+      this.virtualization.setContainerHeight(element.clientHeight);
+      this.virtualization.setContainerWidth(element.clientWidth);
+    }
+  }
+
+  ngOnChanges() {
+    this._items.set(Array.isArray(this.items) ? this.items : null);
+
+    if (this.itemHeight !== undefined) {
+      this.virtualization.setItemHeight(this.itemHeight);
+    }
+    if (this.overscan !== undefined) {
+      this.virtualization.setOverscan(this.overscan);
+    }
+  }
+
+  ngOnDestroy() {
+    this.removeScrollListener?.();
+    this.resizeObserver?.disconnect();
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+    }
+  }
+
+  // Scrolls so the row is in view
+  scrollToIndex(index: number) {
+    const position = this.virtualization.scrollToItemIfNeeded(index);
+    if (position !== null) {
+      this.el.nativeElement.scrollTop = position;
+    }
+  }
+
+  private scheduleScroll() {
+    if (this.frame !== null) return;
+    this.frame = requestAnimationFrame(() => this.flushScroll());
+  }
+
+  // Runs outside the zone; re-enters only when the rendered range changes
+  private flushScroll() {
+    this.frame = null;
+    const element: HTMLElement = this.el.nativeElement;
+    const before = this.virtualization.state();
+
+    this.virtualization.handleScroll(element.scrollTop);
+    this.virtualization.handleHorizontalScroll(element.scrollLeft);
+
+    const after = this.virtualization.state();
+    if (before.visibleStartIndex !== after.visibleStartIndex || before.visibleEndIndex !== after.visibleEndIndex) {
+      this.ngZone.run(() => this.rangeChange.emit({
+        start: after.visibleStartIndex,
+        end: after.visibleEndIndex
+      }));
+    }
+  }
+}
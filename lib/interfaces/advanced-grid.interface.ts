@@ -1,5 +1,12 @@
 import { Observable } from 'rxjs';
-import { GridColumn, GridRow, GridFilter } from './grid.interface';
+import { 
+  GridColumn, 
+  GridRow, 
+  GridFilter, 
+  GridAggregates, 
+  GridAggregateFunction, 
+  GridCustomAggregate 
+} from './grid.interface';
 
 // ===== FEATURE 1: Advanced Column Management =====
 
@@ -29,6 +36,142 @@ export interface DynamicColumn<T = any> extends GridColumn<T> {
   groupable?: boolean;
   lockable?: boolean;
   locked?: 'left' | 'right' | false;
+  editable?: boolean | ((row: T) => boolean);
+  editor?: CellEditorConfig;
+  validators?: CellValidator<T>[];
+}
+
+// ===== Inline Editing =====
+
+// Returns an error message, or null when the value is valid
+export type CellValidator<T = any> = (value: any, row: T) => string | null | undefined;
+
+export interface CellEditorConfig {
+  type: 'text' | 'number' | 'date' | 'boolean' | 'select' | 'custom';
+  options?: { value: any; label: string }[];
+  placeholder?: string;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  parse?: (input: any) => any;
+  // Property edits are written to when the column's accessor is a function; without it such
+  // columns cannot be edited
+  field?: string;
+}
+
+export interface CellEdit {
+  rowId: string | number;
+  columnId: string;
+  originalValue: any;
+  value: any;
+  errors: string[];
+}
+
+export interface PendingChange<T = any> {
+  type: 'create' | 'update' | 'delete';
+  rowId: string | number;
+  original: T | null;
+  data: T;
+  changedFields: string[];
+  status: 'pending' | 'saving' | 'error';
+  index?: number;
+  error?: string;
+}
+
+export interface EditingConfig<T = any> {
+  dataSourceAdapter?: DataSourceAdapter<T>;
+  autoSave?: boolean;
+  // Restore the row and drop the change when the adapter rejects it
+  rollbackOnError?: boolean;
+}
+
+// ===== Undo / Redo History =====
+
+export interface HistoryConfig {
+  enabled?: boolean;
+  maxHistory?: number;
+  trackData?: boolean;
+}
+
+export interface HistoryEntry {
+  label?: string;
+  timestamp: number;
+}
+
+// ===== Pivot Tables =====
+
+export interface PivotValue<T = any> {
+  columnId: string;
+  aggregate: GridAggregateFunction | GridCustomAggregate<T>;
+  header?: string;
+}
+
+export interface PivotConfig<T = any> {
+  rows: string[];
+  columns: string[];
+  values: PivotValue<T>[];
+  subtotals?: boolean;
+  grandTotals?: boolean;
+}
+
+export interface PivotRow {
+  id: string;
+  __parentId: string | null;
+  __rowType: 'data' | 'subtotal' | 'grandTotal';
+  __depth: number;
+  [key: string]: any;
+}
+
+export interface PivotResult {
+  columns: DynamicColumn<PivotRow>[];
+  columnGroups: ColumnGroup<PivotRow>[];
+  data: PivotRow[];
+  grandTotal: PivotRow | null;
+}
+
+// ===== Cell Range Selection =====
+
+// Row index into the processed (displayed) rows, column index into the displayed columns
+export interface CellPosition {
+  rowIndex: number;
+  columnIndex: number;
+}
+
+// The anchor stays fixed while the focus moves as the range is extended
+export interface CellRange {
+  anchor: CellPosition;
+  focus: CellPosition;
+}
+
+export interface CellRangeBounds {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export type CellSelectMode = 'replace' | 'extend' | 'add';
+
+// ===== Clipboard =====
+
+export interface ClipboardConfig {
+  includeHeaders?: boolean;
+  useFormatters?: boolean;
+}
+
+export interface ClipboardContent {
+  text: string; // Tab-separated values
+  html: string;
+  rowCount: number;
+  columnCount: number;
+}
+
+// Pasted values mapped onto grid cells; every edit carries its validation errors
+export interface ClipboardPasteBatch {
+  edits: CellEdit[];
+  target: CellRangeBounds | null;
+  valid: boolean;
 }
 
 // ===== FEATURE 2: Smart Filtering System =====
@@ -111,6 +254,9 @@ export interface DataSourceParams {
   filters?: AdvancedFilter[];
   search?: string;
   columns?: string[];
+  // Opaque keyset cursors; when set they take the place of page
+  before?: string;
+  after?: string;
 }
 
 export interface DataSourceResult<T> {
@@ -118,25 +264,115 @@ export interface DataSourceResult<T> {
   totalCount: number;
   page?: number;
   pageSize?: number;
-  aggregations?: Record<string, any>;
+  aggregations?: GridAggregates;
+  // Cursor pagination: the page's boundary cursors and whether more rows exist either side
+  startCursor?: string | null;
+  endCursor?: string | null;
+  hasNext?: boolean;
+  hasPrevious?: boolean;
 }
 
 export interface RemoteDataConfig {
+  // May contain {name} placeholders filled from pathParams
   endpoint: string;
+  // Template for single-item URLs, e.g. '/api/{tenant}/users/{id}'; defaults to `${endpoint}/{id}`
+  itemEndpoint?: string;
+  pathParams?: Record<string, string | number> | ((params: DataSourceParams) => Record<string, string | number>);
   method?: 'GET' | 'POST';
   headers?: Record<string, string>;
   cache?: boolean;
+  // Age in ms after which a cached page is refetched; 5 minutes by default
   cacheTTL?: number;
+  // Serve an expired page at once and refetch it in the background
+  staleWhileRevalidate?: boolean;
+  // Least recently used pages are evicted beyond this many
+  cacheMaxEntries?: number;
+  // Tags for a cached page besides 'row:<id>' for each of its rows, for invalidateCache(tags)
+  cacheTags?: (params: DataSourceParams, result: DataSourceResult<any>) => string[];
+  // Persists cached pages between sessions, e.g. IndexedDBRemoteCacheStore
+  cacheStore?: RemoteCacheStore;
   retryAttempts?: number;
   timeout?: number;
+  // Query-string and response conventions of the API; request/response dialects override it separately
+  dialect?: RemoteDataDialect;
+  requestDialect?: RemoteRequestDialect;
+  responseDialect?: RemoteResponseDialect;
+}
+
+// ===== Remote Data Cache =====
+
+export interface RemoteCacheEntry<T = any> {
+  key: string;
+  params: DataSourceParams;
+  data: DataSourceResult<T>;
+  tags: string[];
+  timestamp: number;
+}
+
+// The adapter keeps its working set in memory and writes through to the store
+export interface RemoteCacheStore<T = any> {
+  getAll(): Promise<RemoteCacheEntry<T>[]>;
+  put(entry: RemoteCacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// ===== Remote Data Dialects =====
+
+export interface RemoteRequestDialect {
+  // Query parameters for a load; array values are sent as repeated parameters
+  buildParams(params: DataSourceParams): Record<string, string | string[]>;
+  buildBody?(params: DataSourceParams): any;
 }
 
+export interface RemoteResponseDialect<T = any> {
+  parseResponse(response: any, params: DataSourceParams): DataSourceResult<T>;
+}
+
+export interface RemoteDataDialect<T = any> extends RemoteRequestDialect, RemoteResponseDialect<T> {}
+
 export interface WebSocketConfig {
   url: string;
   protocols?: string[];
   reconnect?: boolean;
   reconnectInterval?: number;
   maxReconnectAttempts?: number;
+  // 'v2' adds param-scoped subscriptions, sequence numbers, mutation acks and JSON Patch deltas
+  protocol?: 'v1' | 'v2';
+  // Ping interval in ms; defaults to 30000 for v2 and off for v1
+  heartbeatInterval?: number;
+  // How long after a ping to wait for any message before the socket is treated as dead
+  heartbeatTimeout?: number;
+  // How long a v2 mutation waits for its ack
+  ackTimeout?: number;
+}
+
+// RFC 6902 operation
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  value?: any;
+  from?: string;
+}
+
+export interface EventSourceConfig {
+  url: string;
+  withCredentials?: boolean;
+  // 'query' sends DataSourceParams to the server and opens a new stream when they change;
+  // 'local' (default) applies filters, search, sort and paging to the streamed rows
+  params?: 'local' | 'query';
+  // Builds the query parameters in 'query' mode (default DefaultRemoteDialect)
+  requestDialect?: RemoteRequestDialect;
+  // Named events carrying messages; the event name is the message type
+  eventTypes?: string[];
+  // Reopens a stream the browser gave up on (default true)
+  reconnect?: boolean;
+  reconnectInterval?: number;
+  maxReconnectAttempts?: number;
+  // Query parameter carrying the last event id when the adapter reopens the stream itself
+  lastEventIdParam?: string;
+  // Creates the EventSource, e.g. a polyfill or a fake in tests
+  eventSourceFactory?: (url: string, init: EventSourceInit) => EventSource;
 }
 
 export interface InfiniteScrollConfig {
@@ -147,6 +383,141 @@ export interface InfiniteScrollConfig {
   loadingIndicator?: boolean;
 }
 
+// ===== OData Data Source =====
+
+export interface ODataConfig extends RemoteDataConfig {
+  // '4.01' enables the `in` operator and matchesPattern(); '4.0' expands `in` into `eq` chains
+  version?: '4.0' | '4.01';
+  // Column ids mapped to OData property paths, e.g. { customerName: 'Customer/Name' }
+  fieldMap?: Record<string, string>;
+  // Column ids of string properties; isEmpty/isNotEmpty also compare these with '', which
+  // services reject for other property types
+  stringFields?: string[];
+  // Expression for filters with the 'custom' operator; return null to skip the filter
+  customFilter?: (filter: AdvancedFilter, field: string) => string | null;
+}
+
+// ===== GraphQL Data Source =====
+
+export interface GraphQLConfig<T = any> {
+  endpoint: string;
+  query: string;
+  // Dot path to the list or connection under `data`, e.g. 'users' or 'viewer.orders'
+  dataPath: string;
+  // Relay-style connection ({ edges { node cursor } pageInfo totalCount }) instead of a plain list
+  connection?: boolean;
+  // Dot path to the total count when the result is a plain list; defaults to none
+  totalCountPath?: string;
+  variableNames?: GraphQLVariableNames;
+  // Replaces the default variable mapping entirely
+  mapVariables?: (params: DataSourceParams, cursor: GraphQLCursor) => Record<string, any>;
+  mutations?: GraphQLMutations<T>;
+  headers?: Record<string, string>;
+  retryAttempts?: number;
+  timeout?: number;
+}
+
+// Variable names used by the default mapping; null leaves the parameter out
+export interface GraphQLVariableNames {
+  page?: string | null;
+  pageSize?: string | null;
+  offset?: string | null;
+  first?: string | null;
+  after?: string | null;
+  // Backward paging from DataSourceParams.before
+  last?: string | null;
+  before?: string | null;
+  sort?: string | null;
+  filters?: string | null;
+  search?: string | null;
+  columns?: string | null;
+}
+
+export interface GraphQLCursor {
+  after: string | null;
+  before?: string | null;
+}
+
+export interface GraphQLPageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage?: boolean;
+  startCursor?: string | null;
+  endCursor?: string | null;
+}
+
+export interface GraphQLMutation<V> {
+  mutation: string;
+  // Dot path to the mutation result under `data`; defaults to the first field
+  resultPath?: string;
+  variables?: (value: V) => Record<string, any>;
+}
+
+export interface GraphQLMutations<T = any> {
+  create?: GraphQLMutation<Partial<T>>;
+  update?: GraphQLMutation<T>;
+  delete?: GraphQLMutation<string | number>;
+}
+
+// ===== Optimistic Mutations =====
+export interface OptimisticMutation<T = any> {
+  id: number;
+  type: 'create' | 'update' | 'delete';
+  rowId: string | number;
+  // Row as last loaded; null for creates and rows never seen by load()
+  previous: T | null;
+  // Row as applied locally; null for deletes
+  data: T | Partial<T> | null;
+}
+
+export interface MutationError<T = any> {
+  type: 'create' | 'update' | 'delete';
+  rowId: string | number;
+  previous: T | null;
+  data: T | Partial<T> | null;
+  error: unknown;
+  message: string;
+}
+
+// ===== Offline Mutation Queue =====
+export interface QueuedMutation<T = any> {
+  // Increasing id; mutations replay in id order
+  id: number;
+  type: 'create' | 'update' | 'delete';
+  rowId: string | number;
+  data: T | Partial<T> | null;
+  queuedAt: number;
+  attempts: number;
+  status: 'queued' | 'syncing' | 'conflict';
+  error?: string;
+}
+
+export interface MutationConflict<T = any> {
+  mutation: QueuedMutation<T>;
+  error: unknown;
+  message: string;
+}
+
+export interface MutationQueueStorage<T = any> {
+  getAll(): Promise<QueuedMutation<T>[]>;
+  put(mutation: QueuedMutation<T>): Promise<void>;
+  delete(id: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface OfflineQueueConfig<T = any> {
+  // Defaults to IndexedDB, or memory where IndexedDB is unavailable
+  storage?: MutationQueueStorage<T>;
+  // Rejections that are reported as conflicts; anything else is retried later.
+  // Defaults to 4xx responses other than 408 and 429.
+  isConflict?: (error: any) => boolean;
+  // Replay the queue when the browser comes back online (default true)
+  syncOnReconnect?: boolean;
+  // Delay before replaying after a failure that is not a conflict, doubled on each further
+  // failure up to maxRetryDelay (defaults 1000 and 60000 ms)
+  retryDelay?: number;
+  maxRetryDelay?: number;
+}
+
 // ===== FEATURE 10: Export & Import System =====
 
 export interface ExportConfig {
@@ -365,7 +736,13 @@ export interface AdvancedGridOptions<T = any> {
   enableHorizontalVirtualization?: boolean;
   enablePredictiveLoading?: boolean;
   
+  // Editing
+  enableEditing?: boolean;
+  editingConfig?: EditingConfig<T>;
+  
   // Data source
+  // Server-side mode for GridStateService: the first page is loaded at once, later sort, filter
+  // and page changes are sent to the adapter after debounceMs, and its results replace the data
   dataSourceAdapter?: DataSourceAdapter<T>;
   remoteDataConfig?: RemoteDataConfig;
   webSocketConfig?: WebSocketConfig;
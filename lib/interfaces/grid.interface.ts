@@ -1,3 +1,31 @@
+import { Observable } from 'rxjs';
+import {
+  AdvancedGridOptions,
+  CellEdit,
+  CellRange,
+  CellSelectMode,
+  ClipboardContent,
+  ClipboardPasteBatch,
+  PendingChange,
+  PivotConfig
+} from './advanced-grid.interface';
+
+export type GridAggregateFunction = 'sum' | 'avg' | 'min' | 'max' | 'count' | 'distinctCount';
+
+export interface GridCustomAggregate<T = any> {
+  name: string;
+  reducer: (values: any[], rows: T[]) => any;
+}
+
+// Aggregated values keyed by column id, then by aggregate function name
+export type GridAggregates = Record<string, Record<string, any>>;
+
+export interface GridAggregateSummary {
+  total: GridAggregates;
+  page: GridAggregates;
+  groups: Record<string, GridAggregates>;
+}
+
 export interface GridColumn<T = any> {
   id: string;
   header: string;
@@ -12,6 +40,7 @@ export interface GridColumn<T = any> {
   filterFn?: (value: any, filterValue: any) => boolean;
   hidden?: boolean;
   pinned?: 'left' | 'right';
+  aggregate?: GridAggregateFunction | GridCustomAggregate<T> | (GridAggregateFunction | GridCustomAggregate<T>)[];
 }
 
 export interface GridRow<T = any> {
@@ -21,6 +50,25 @@ export interface GridRow<T = any> {
   expanded?: boolean;
   disabled?: boolean;
   index: number;
+  type?: 'data' | 'group';
+  depth?: number;
+  parentId?: string | number | null;
+  hasChildren?: boolean;
+}
+
+export interface GridGroupRow<T = any> extends GridRow<T> {
+  type: 'group';
+  groupKey: any;
+  groupColumnId: string;
+  depth: number;
+  childCount: number;
+  leafRows: GridRow<T>[];
+  aggregates: GridAggregates;
+}
+
+export interface GridGrouping {
+  columnIds: string[];
+  expanded: Record<string, boolean>;
 }
 
 export interface GridSort {
@@ -42,6 +90,25 @@ export interface GridPagination {
   showFirstLast?: boolean;
   showPrevNext?: boolean;
   pageSizeOptions?: number[];
+  // 'cursor' pages with opaque cursors; totalPages stays 0 and hasNext/hasPrevious drive navigation
+  mode?: 'offset' | 'cursor';
+  // Cursor the current page was requested with
+  before?: string | null;
+  after?: string | null;
+  // Cursors of the current page's first and last rows, from the data source
+  startCursor?: string | null;
+  endCursor?: string | null;
+  hasNext?: boolean;
+  hasPrevious?: boolean;
+}
+
+// Reported by the data source after loading a cursor page
+export interface GridPageInfo {
+  startCursor?: string | null;
+  endCursor?: string | null;
+  hasNext?: boolean;
+  hasPrevious?: boolean;
+  totalItems?: number;
 }
 
 export interface GridSelection<T = any> {
@@ -52,15 +119,26 @@ export interface GridSelection<T = any> {
   indeterminate?: boolean;
 }
 
+export interface GridPinnedRows {
+  top: (string | number)[];
+  bottom: (string | number)[];
+}
+
 export interface GridState<T = any> {
   data: T[];
   columns: GridColumn<T>[];
   rows: GridRow<T>[];
   processedRows: GridRow<T>[];
+  pinnedTopRows: GridRow<T>[];
+  pinnedBottomRows: GridRow<T>[];
   sort: GridSort[];
   filters: GridFilter[];
   pagination: GridPagination;
   selection: GridSelection<T>;
+  grouping: GridGrouping;
+  expandedRows: Record<string, boolean>;
+  detailRows: Record<string, boolean>;
+  aggregates: GridAggregateSummary;
   loading: boolean;
   error: string | null;
   virtualization?: {
@@ -73,7 +151,25 @@ export interface GridState<T = any> {
   };
 }
 
-export interface GridOptions<T = any> {
+export interface GridTreeDataConfig<T = any> {
+  getChildren?: (row: T) => T[] | null | undefined;
+  parentIdField?: string;
+  expandedByDefault?: boolean;
+}
+
+export interface GridMasterDetailConfig<T = any, D = any> {
+  loadDetail: (row: T) => Observable<D>;
+  detailHeight?: number;
+}
+
+export interface GridDetailState<D = any> {
+  loading: boolean;
+  error: string | null;
+  data: D | null;
+}
+
+// Shares dataSourceAdapter (server-side mode) with AdvancedGridOptions
+export interface GridOptions<T = any> extends Pick<AdvancedGridOptions<T>, 'dataSourceAdapter'> {
   enableSorting?: boolean;
   enableFiltering?: boolean;
   enablePagination?: boolean;
@@ -83,11 +179,16 @@ export interface GridOptions<T = any> {
   selectionMode?: 'single' | 'multiple' | 'none';
   pageSize?: number;
   pageSizeOptions?: number[];
+  paginationMode?: 'offset' | 'cursor';
   virtualItemHeight?: number;
   virtualOverscan?: number;
   persistState?: boolean;
   stateKey?: string;
   debounceMs?: number;
+  groupBy?: string[];
+  groupsExpandedByDefault?: boolean;
+  treeData?: GridTreeDataConfig<T>;
+  masterDetail?: GridMasterDetailConfig<T>;
   sortCompareFn?: (a: any, b: any, column: GridColumn<T>) => number;
   filterFn?: (row: T, filters: GridFilter[]) => boolean;
 }
@@ -96,6 +197,9 @@ export interface GridContext<T = any> {
   state: GridState<T>;
   columns: GridColumn<T>[];
   rows: GridRow<T>[];
+  visibleRows: GridRow<T>[];
+  pinnedTopRows: GridRow<T>[];
+  pinnedBottomRows: GridRow<T>[];
   sortBy: (columnId: string, direction?: 'asc' | 'desc') => void;
   clearSort: (columnId?: string) => void;
   getSortDirection: (columnId: string) => 'asc' | 'desc' | null;
@@ -104,12 +208,62 @@ export interface GridContext<T = any> {
   getFilterValue: (columnId: string) => any;
   setPage: (page: number) => void;
   setPageSize: (size: number) => void;
+  nextPage: () => void;
+  previousPage: () => void;
   selectRow: (rowId: string | number, selected?: boolean) => void;
   selectAllRows: (selected?: boolean) => void;
   toggleRowSelection: (rowId: string | number) => void;
   clearSelection: () => void;
+  groupBy: (columnIds: string | string[]) => void;
+  ungroup: (columnId?: string) => void;
+  toggleGroup: (groupId: string) => void;
+  isGroupExpanded: (groupId: string) => boolean;
+  getAggregate: (columnId: string, fn: string, scope?: 'total' | 'page') => any;
+  toggleTreeNode: (rowId: string | number) => void;
+  expandAll: () => void;
+  collapseAll: () => void;
+  isRowExpanded: (rowId: string | number) => boolean;
+  expandRow: (rowId: string | number) => void;
+  collapseRow: (rowId: string | number) => void;
+  toggleRowExpansion: (rowId: string | number) => void;
+  isDetailExpanded: (rowId: string | number) => boolean;
+  getDetailState: (rowId: string | number) => GridDetailState | null;
+  pinRow: (rowId: string | number, position: 'top' | 'bottom') => void;
+  unpinRow: (rowId: string | number) => void;
+  getRowPinPosition: (rowId: string | number) => 'top' | 'bottom' | null;
+  setPivot: (config: PivotConfig<T> | null) => void;
+  pendingChanges: PendingChange<T>[];
+  startEdit: (rowId: string | number, columnId: string) => boolean;
+  setEditValue: (rowId: string | number, columnId: string, value: any) => void;
+  commitEdit: (rowId: string | number, columnId: string) => boolean;
+  cancelEdit: (rowId: string | number, columnId: string) => void;
+  startRowEdit: (rowId: string | number) => boolean;
+  commitRowEdit: (rowId: string | number) => boolean;
+  cancelRowEdit: (rowId: string | number) => void;
+  isEditing: (rowId: string | number, columnId?: string) => boolean;
+  getEdit: (rowId: string | number, columnId: string) => CellEdit | undefined;
+  isCellDirty: (rowId: string | number, columnId: string) => boolean;
+  isRowSaving: (rowId: string | number) => boolean;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  undo: () => void;
+  redo: () => void;
+  transaction: (fn: () => void, label?: string) => void;
+  cellRanges: () => CellRange[];
+  selectCell: (rowIndex: number, columnIndex: number, mode?: CellSelectMode) => void;
+  selectColumn: (column: string | number, add?: boolean) => void;
+  selectAllCells: () => void;
+  clearCellSelection: () => void;
+  isCellSelected: (rowIndex: number, columnIndex: number) => boolean;
+  getSelectedValues: () => any[][];
+  copySelection: () => Observable<ClipboardContent>;
+  pasteText: (text: string) => ClipboardPasteBatch;
   refresh: () => void;
   exportState: () => string;
   importState: (state: string) => void;
   pagination: GridPagination;
-} 
\ No newline at end of file
+}
+
+export function isGroupRow<T = any>(row: GridRow<T>): row is GridGroupRow<T> {
+  return row.type === 'group';
+}
@@ -0,0 +1,651 @@
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { Subject, Observable, ReplaySubject, from, of, throwError, defer, EMPTY } from 'rxjs';
+import { concatMap, catchError, finalize, map, tap, toArray } from 'rxjs/operators';
+import {
+  CellEdit,
+  DynamicColumn,
+  EditingConfig,
+  MutationError,
+  PendingChange
+} from '../interfaces/advanced-grid.interface';
+import { GridStateService } from './grid-state.service';
+import { SecurityService } from './security.service';
+import { getCellValue } from '../utils/grid.utils';
+
+@Injectable()
+export class CellEditingService<T = any> {
+  private gridService = inject<GridStateService<T>>(GridStateService);
+  private securityService = inject<SecurityService<T>>(SecurityService, { optional: true });
+
+  private _config = signal<EditingConfig<T>>({});
+  private _activeEdits = signal<CellEdit[]>([]);
+  private _pendingChanges = signal<PendingChange<T>[]>([]);
+  private tempIdCounter = 0;
+  // Rows with a save in flight; each emits the row's id once its save settles
+  private rowSaves = new Map<string | number, ReplaySubject<string | number>>();
+
+  // Events
+  private _editStarted = new Subject<CellEdit>();
+  private _editCommitted = new Subject<CellEdit>();
+  private _editCancelled = new Subject<CellEdit>();
+  private _changeSaved = new Subject<PendingChange<T>>();
+  private _changeFailed = new Subject<PendingChange<T>>();
+  private _changeRolledBack = new Subject<MutationError<T>>();
+
+  // Public observables
+  editStarted$ = this._editStarted.asObservable();
+  editCommitted$ = this._editCommitted.asObservable();
+  editCancelled$ = this._editCancelled.asObservable();
+  changeSaved$ = this._changeSaved.asObservable();
+  changeFailed$ = this._changeFailed.asObservable();
+  changeRolledBack$ = this._changeRolledBack.asObservable();
+
+  // Computed states
+  activeEdits = computed(() => this._activeEdits());
+  pendingChanges = computed(() => this._pendingChanges());
+  hasPendingChanges = computed(() => this._pendingChanges().length > 0);
+
+  dirtyCells = computed(() => {
+    const dirty: Record<string, boolean> = {};
+    this._pendingChanges().forEach(change => {
+      change.changedFields.forEach(field => {
+        dirty[this.cellKey(change.rowId, field)] = true;
+      });
+    });
+    return dirty;
+  });
+
+  validationErrors = computed(() =>
+    this._activeEdits()
+      .filter(edit => edit.errors.length > 0)
+      .map(edit => ({ rowId: edit.rowId, columnId: edit.columnId, messages: edit.errors }))
+  );
+
+  // Initialization
+  initialize(config: EditingConfig<T> = {}) {
+    this._config.set({ autoSave: true, ...config });
+  }
+
+  // ===== CELL EDITING =====
+
+  canEdit(rowId: string | number, columnId: string): boolean {
+    const row = this.gridService.getRow(rowId);
+    const column = this.getColumn(columnId);
+    if (!row || !column) return false;
+
+    const editable = typeof column.editable === 'function'
+      ? column.editable(row.data)
+      : column.editable === true;
+    if (!editable) return false;
+
+    // A computed value has no property to write back to
+    if (typeof column.accessor === 'function' && !column.editor?.field) return false;
+
+    if (this.securityService && !this.securityService.canWriteField(columnId, row.data)) {
+      return false;
+    }
+
+    return !this._pendingChanges().some(c => c.rowId === rowId && c.type === 'delete');
+  }
+
+  startEdit(rowId: string | number, columnId: string): boolean {
+    if (this.isEditing(rowId, columnId)) return true;
+    if (!this.canEdit(rowId, columnId)) return false;
+
+    const row = this.gridService.getRow(rowId)!;
+    const value = getCellValue(row.data, this.getColumn(columnId)!);
+    const edit: CellEdit = { rowId, columnId, originalValue: value, value, errors: [] };
+
+    this._activeEdits.update(edits => [...edits, edit]);
+    this._editStarted.next(edit);
+    return true;
+  }
+
+  startRowEdit(rowId: string | number): boolean {
+    const columns = this.gridService.columns() as DynamicColumn<T>[];
+    const started = columns
+      .filter(column => !column.hidden)
+      .map(column => this.startEdit(rowId, column.id));
+    return started.some(Boolean);
+  }
+
+  setEditValue(rowId: string | number, columnId: string, value: any) {
+    const column = this.getColumn(columnId);
+    const row = this.gridService.getRow(rowId);
+    if (!column || !row) return;
+
+    const parsed = column.editor?.parse ? column.editor.parse(value) : value;
+
+    this._activeEdits.update(edits => edits.map(edit =>
+      edit.rowId === rowId && edit.columnId === columnId
+        ? { ...edit, value: parsed, errors: this.validate(column, parsed, row.data) }
+        : edit
+    ));
+  }
+
+  commitEdit(rowId: string | number, columnId: string): boolean {
+    const edit = this.getEdit(rowId, columnId);
+    if (!edit) return false;
+
+    const row = this.gridService.getRow(rowId);
+    const column = this.getColumn(columnId);
+    if (!row || !column) {
+      this.removeEdits([edit]);
+      return false;
+    }
+
+    const errors = this.validate(column, edit.value, row.data);
+    if (errors.length > 0) {
+      this._activeEdits.update(edits => edits.map(e => e === edit ? { ...e, errors } : e));
+      return false;
+    }
+
+    this.removeEdits([edit]);
+    if (edit.value !== edit.originalValue) {
+      this.applyChanges(row.id, row.data, [{ column, value: edit.value }]);
+    }
+
+    this._editCommitted.next(edit);
+    return true;
+  }
+
+  commitRowEdit(rowId: string | number): boolean {
+    const edits = this._activeEdits().filter(edit => edit.rowId === rowId);
+    const row = this.gridService.getRow(rowId);
+    if (edits.length === 0 || !row) return false;
+
+    // Validate every cell before applying any of them
+    let valid = true;
+    const validated = edits.map(edit => {
+      const errors = this.validate(this.getColumn(edit.columnId)!, edit.value, row.data);
+      if (errors.length > 0) valid = false;
+      return { ...edit, errors };
+    });
+
+    if (!valid) {
+      this._activeEdits.update(current => current.map(edit =>
+        validated.find(v => v.rowId === edit.rowId && v.columnId === edit.columnId) ?? edit
+      ));
+      return false;
+    }
+
+    this.removeEdits(edits);
+    const changes = edits
+      .filter(edit => edit.value !== edit.originalValue)
+      .map(edit => ({ column: this.getColumn(edit.columnId)!, value: edit.value }));
+
+    if (changes.length > 0) {
+      this.applyChanges(row.id, row.data, changes);
+    }
+
+    edits.forEach(edit => this._editCommitted.next(edit));
+    return true;
+  }
+
+  cancelEdit(rowId: string | number, columnId: string) {
+    const edit = this.getEdit(rowId, columnId);
+    if (!edit) return;
+
+    this.removeEdits([edit]);
+    this._editCancelled.next(edit);
+  }
+
+  cancelRowEdit(rowId: string | number) {
+    const edits = this._activeEdits().filter(edit => edit.rowId === rowId);
+    this.removeEdits(edits);
+    edits.forEach(edit => this._editCancelled.next(edit));
+  }
+
+  // Applies a batch of values (e.g. a paste) without opening editors.
+  // Nothing is applied when any cell fails validation.
+  applyEdits(edits: CellEdit[]): boolean {
+    const validated = edits.map(edit => ({
+      ...edit,
+      errors: this.validateValue(edit.rowId, edit.columnId, edit.value)
+    }));
+    if (validated.some(edit => edit.errors.length > 0)) return false;
+
+    const editsByRow = new Map<string | number, CellEdit[]>();
+    validated.forEach(edit => {
+      const rowEdits = editsByRow.get(edit.rowId);
+      if (rowEdits) {
+        rowEdits.push(edit);
+      } else {
+        editsByRow.set(edit.rowId, [edit]);
+      }
+    });
+
+    editsByRow.forEach((rowEdits, rowId) => {
+      const row = this.gridService.getRow(rowId)!;
+      const changes = rowEdits
+        .map(edit => ({ column: this.getColumn(edit.columnId)!, value: edit.value }))
+        .filter(({ column, value }) => value !== getCellValue(row.data, column));
+
+      if (changes.length > 0) {
+        this.applyChanges(row.id, row.data, changes);
+      }
+    });
+
+    validated.forEach(edit => this._editCommitted.next(edit));
+    return true;
+  }
+
+  validateValue(rowId: string | number, columnId: string, value: any): string[] {
+    const row = this.gridService.getRow(rowId);
+    const column = this.getColumn(columnId);
+    if (!row || !column) return [`Cell ${rowId}:${columnId} does not exist`];
+
+    if (!this.canEdit(rowId, columnId)) {
+      return [`${column.header} is read-only`];
+    }
+
+    return this.validate(column, value, row.data);
+  }
+
+  isEditing(rowId: string | number, columnId?: string): boolean {
+    return this._activeEdits().some(edit =>
+      edit.rowId === rowId && (!columnId || edit.columnId === columnId)
+    );
+  }
+
+  getEdit(rowId: string | number, columnId: string): CellEdit | undefined {
+    return this._activeEdits().find(edit => edit.rowId === rowId && edit.columnId === columnId);
+  }
+
+  isCellDirty(rowId: string | number, columnId: string): boolean {
+    return !!this.dirtyCells()[this.cellKey(rowId, columnId)];
+  }
+
+  isRowDirty(rowId: string | number): boolean {
+    return this._pendingChanges().some(change => change.rowId === rowId);
+  }
+
+  // True while the row's change is being sent to the data source
+  isRowSaving(rowId: string | number): boolean {
+    return this._pendingChanges().some(change => change.rowId === rowId && change.status === 'saving');
+  }
+
+  // ===== ROW OPERATIONS =====
+
+  addRow(item: Partial<T>, index?: number): string | number {
+    const data = { ...item } as any;
+    if (data.id == null && data._id == null && data.uuid == null) {
+      data.id = `new-${++this.tempIdCounter}`;
+    }
+
+    this.gridService.addRow(data as T, index);
+    const rowId = data.id ?? data._id ?? data.uuid;
+
+    this.recordChange({
+      type: 'create',
+      rowId,
+      original: null,
+      data,
+      changedFields: Object.keys(item),
+      status: 'pending',
+      index
+    });
+    return rowId;
+  }
+
+  deleteRow(rowId: string | number) {
+    const row = this.gridService.getRow(rowId);
+    if (!row) return;
+
+    this.cancelRowEdit(rowId);
+    const existing = this.findQueuedChange(rowId);
+    this.gridService.removeRow(rowId);
+
+    // Deleting a row that was never saved simply forgets it
+    if (existing?.type === 'create') {
+      this._pendingChanges.update(changes => changes.filter(change => change !== existing));
+      return;
+    }
+
+    this._pendingChanges.update(changes => changes.filter(change => change !== existing));
+    this.recordChange({
+      type: 'delete',
+      rowId,
+      original: existing?.original ?? row.data,
+      data: row.data,
+      changedFields: [],
+      status: 'pending',
+      index: row.index
+    });
+  }
+
+  // ===== PERSISTENCE =====
+
+  saveChanges(): Observable<void> {
+    const adapter = this._config().dataSourceAdapter;
+    const changes = this._pendingChanges().filter(change => change.status !== 'saving');
+
+    if (!adapter) {
+      this.acceptChanges();
+      return of(undefined);
+    }
+
+    return from(changes).pipe(
+      concatMap(change => this.saveChange(change)),
+      toArray(),
+      map(() => undefined)
+    );
+  }
+
+  acceptChanges() {
+    this._pendingChanges.set([]);
+  }
+
+  discardChanges() {
+    // Revert in reverse order so row indexes line up again
+    [...this._pendingChanges()].reverse().forEach(change => this.revertChange(change));
+    this._pendingChanges.set([]);
+  }
+
+  discardRowChanges(rowId: string | number) {
+    const change = this._pendingChanges().find(c => c.rowId === rowId);
+    if (!change) return;
+
+    this.revertChange(change);
+    this._pendingChanges.update(changes => changes.filter(c => c !== change));
+  }
+
+  // ===== STATE MANAGEMENT =====
+
+  exportState() {
+    return {
+      pendingChanges: this._pendingChanges()
+    };
+  }
+
+  importState(state: any) {
+    if (state.pendingChanges) this._pendingChanges.set(state.pendingChanges);
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  private applyChanges(
+    rowId: string | number,
+    rowData: T,
+    changes: { column: DynamicColumn<T>; value: any }[]
+  ) {
+    const updated = { ...rowData } as any;
+    changes.forEach(({ column, value }) => {
+      const field = column.editor?.field ?? (typeof column.accessor === 'string' ? column.accessor : column.id);
+      updated[field] = value;
+    });
+
+    this.gridService.updateRow(rowId, updated);
+
+    // A change already being saved is left alone; this one is sent after it
+    const existing = this.findQueuedChange(rowId);
+    const changedFields = changes.map(c => c.column.id);
+
+    this.securityService?.logAction('edit', 'row', String(rowId), { fields: changedFields });
+
+    if (existing) {
+      this._pendingChanges.update(pending => pending.filter(change => change !== existing));
+      this.recordChange({
+        ...existing,
+        data: updated,
+        changedFields: Array.from(new Set([...existing.changedFields, ...changedFields])),
+        status: 'pending',
+        error: undefined
+      });
+    } else {
+      this.recordChange({
+        type: 'update',
+        rowId,
+        original: rowData,
+        data: updated,
+        changedFields,
+        status: 'pending'
+      });
+    }
+  }
+
+  private recordChange(change: PendingChange<T>) {
+    this._pendingChanges.update(changes => [...changes, change]);
+
+    const config = this._config();
+    if (config.dataSourceAdapter && config.autoSave) {
+      this.saveChange(change).subscribe();
+    }
+  }
+
+  // One save per row is in flight at a time. A change recorded meanwhile waits for it and is
+  // then sent as it stands, so edits made while waiting go out together.
+  private saveChange(change: PendingChange<T>): Observable<void> {
+    const inFlight = this.rowSaves.get(change.rowId);
+    if (inFlight) {
+      return inFlight.pipe(concatMap(rowId => {
+        const queued = this.findQueuedChange(rowId);
+        return queued?.status === 'pending' ? this.saveChange(queued) : EMPTY;
+      }));
+    }
+
+    return defer(() => this.sendChange(change));
+  }
+
+  private sendChange(change: PendingChange<T>): Observable<void> {
+    const adapter = this._config().dataSourceAdapter;
+    // A change merged or discarded since it was scheduled is no longer in the list
+    const sent = adapter ? this.updateChangeStatus(change, 'saving') : undefined;
+    if (!adapter || !sent) return EMPTY;
+
+    let request: Observable<T | void>;
+    switch (sent.type) {
+      case 'create':
+        request = adapter.create
+          ? adapter.create(this.stripTempId(sent.data))
+          : throwError(() => new Error('Data source does not support create'));
+        break;
+      case 'update':
+        request = adapter.update
+          ? adapter.update(sent.data)
+          : throwError(() => new Error('Data source does not support update'));
+        break;
+      case 'delete':
+        request = adapter.delete
+          ? adapter.delete(sent.rowId)
+          : throwError(() => new Error('Data source does not support delete'));
+        break;
+    }
+
+    const settled = new ReplaySubject<string | number>(1);
+    let rowId = sent.rowId;
+    this.rowSaves.set(sent.rowId, settled);
+
+    return request.pipe(
+      tap(result => {
+        this._pendingChanges.update(changes => changes.filter(c => c !== sent));
+        rowId = this.applySavedResult(sent, result);
+        this._changeSaved.next(sent);
+      }),
+      map(() => undefined),
+      catchError(error => {
+        const message = error instanceof Error ? error.message : String(error);
+        const failed = this.updateChangeStatus(sent, 'error', message);
+        if (failed) {
+          this._changeFailed.next(failed);
+          if (this._config().rollbackOnError) {
+            this.rollBack(failed, error, message);
+          } else {
+            this.mergeQueuedChange(failed);
+          }
+        }
+        return EMPTY;
+      }),
+      finalize(() => {
+        this.rowSaves.delete(sent.rowId);
+        settled.next(rowId);
+        settled.complete();
+      })
+    );
+  }
+
+  // Applies the saved row unless it was edited after the change was sent; a created row
+  // always takes the server's id, and changes queued behind it follow. Returns the row's id.
+  private applySavedResult(sent: PendingChange<T>, result: T | void): string | number {
+    if (!result || sent.type === 'delete') return sent.rowId;
+
+    const idField = ['id', '_id', 'uuid'].find(field => (result as any)[field] != null);
+    const rowId: string | number = idField ? (result as any)[idField] : sent.rowId;
+    const queued = this.findQueuedChange(sent.rowId);
+
+    if (!queued) {
+      this.gridService.updateRow(sent.rowId, result as T);
+    } else if (idField && rowId !== sent.rowId) {
+      const current = this.gridService.getRow(sent.rowId);
+      if (current) {
+        this.gridService.updateRow(sent.rowId, { ...current.data, [idField]: rowId } as T);
+      }
+      this._pendingChanges.update(changes => changes.map(c => c === queued
+        ? { ...c, rowId, data: { ...c.data, [idField]: rowId } as T }
+        : c
+      ));
+    }
+
+    if (rowId !== sent.rowId) {
+      this._activeEdits.update(edits => edits.map(edit =>
+        edit.rowId === sent.rowId ? { ...edit, rowId } : edit
+      ));
+    }
+    return rowId;
+  }
+
+  // Folds a change queued behind a failed one into it, so the failed change can be retried whole
+  private mergeQueuedChange(failed: PendingChange<T>) {
+    const queued = this.findQueuedChange(failed.rowId, failed);
+    if (!queued) return;
+
+    let merged: PendingChange<T> | null;
+    if (queued.type === 'delete') {
+      // A row that never reached the server has nothing to delete
+      merged = failed.type === 'create' ? null : { ...queued, original: failed.original };
+    } else {
+      merged = {
+        ...failed,
+        data: queued.data,
+        changedFields: Array.from(new Set([...failed.changedFields, ...queued.changedFields]))
+      };
+    }
+
+    this._pendingChanges.update(changes => changes
+      .filter(c => c !== queued)
+      .flatMap(c => c === failed ? (merged ? [merged] : []) : [c])
+    );
+  }
+
+  private revertChange(change: PendingChange<T>) {
+    switch (change.type) {
+      case 'create':
+        this.gridService.removeRow(change.rowId);
+        break;
+      case 'update':
+        if (change.original) {
+          this.gridService.updateRow(change.rowId, change.original);
+        }
+        break;
+      case 'delete':
+        this.gridService.addRow(change.original ?? change.data, change.index);
+        break;
+    }
+  }
+
+  // Changes queued behind the failed one are dropped too: the row goes back to its saved state
+  private rollBack(change: PendingChange<T>, error: unknown, message: string) {
+    this.revertChange(change);
+    this._pendingChanges.update(changes => changes.filter(c => c.rowId !== change.rowId));
+    this._changeRolledBack.next({
+      type: change.type,
+      rowId: change.rowId,
+      previous: change.original,
+      data: change.type === 'delete' ? null : change.data,
+      error,
+      message
+    });
+  }
+
+  private updateChangeStatus(
+    change: PendingChange<T>,
+    status: PendingChange['status'],
+    error?: string
+  ): PendingChange<T> | undefined {
+    let updated: PendingChange<T> | undefined;
+    this._pendingChanges.update(changes => changes.map(c => {
+      if (c !== change) return c;
+      updated = { ...c, status, error };
+      return updated;
+    }));
+    return updated;
+  }
+
+  // The row's change that has not been sent yet
+  private findQueuedChange(rowId: string | number, except?: PendingChange<T>): PendingChange<T> | undefined {
+    return this._pendingChanges().find(change =>
+      change.rowId === rowId && change.status !== 'saving' && change !== except
+    );
+  }
+
+  private validate(column: DynamicColumn<T>, value: any, row: T): string[] {
+    const errors: string[] = [];
+    const editor = column.editor;
+    const isEmpty = value == null || value === '';
+
+    if (editor?.required && isEmpty) {
+      errors.push(`${column.header} is required`);
+      return errors;
+    }
+
+    if (!isEmpty && editor) {
+      if (editor.type === 'number' && isNaN(Number(value))) {
+        errors.push(`${column.header} must be a number`);
+      }
+      if (editor.type === 'date' && isNaN(new Date(value).getTime())) {
+        errors.push(`${column.header} must be a valid date`);
+      }
+      if (editor.min !== undefined && Number(value) < editor.min) {
+        errors.push(`${column.header} must be at least ${editor.min}`);
+      }
+      if (editor.max !== undefined && Number(value) > editor.max) {
+        errors.push(`${column.header} must be at most ${editor.max}`);
+      }
+      if (editor.pattern && !editor.pattern.test(String(value))) {
+        errors.push(`${column.header} does not match required pattern`);
+      }
+      if (editor.type === 'select' && editor.options &&
+          !editor.options.some(option => option.value === value)) {
+        errors.push(`${column.header} must be one of the available options`);
+      }
+    }
+
+    column.validators?.forEach(validator => {
+      const message = validator(value, row);
+      if (message) {
+        errors.push(message);
+      }
+    });
+
+    return errors;
+  }
+
+  private removeEdits(edits: CellEdit[]) {
+    this._activeEdits.update(current => current.filter(edit =>
+      !edits.some(e => e.rowId === edit.rowId && e.columnId === edit.columnId)
+    ));
+  }
+
+  private getColumn(columnId: string): DynamicColumn<T> | undefined {
+    return (this.gridService.columns() as DynamicColumn<T>[]).find(c => c.id === columnId);
+  }
+
+  private stripTempId(data: T): Partial<T> {
+    const { id, ...rest } = data as any;
+    return typeof id === 'string' && id.startsWith('new-') ? rest : data;
+  }
+
+  private cellKey(rowId: string | number, columnId: string): string {
+    return `${rowId}:${columnId}`;
+  }
+}
@@ -0,0 +1,283 @@
+import { Injectable, signal, computed, inject, DestroyRef } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { Subject } from 'rxjs';
+import { GridColumn, GridRow, isGroupRow } from '../interfaces/grid.interface';
+import {
+  CellPosition,
+  CellRange,
+  CellRangeBounds,
+  CellSelectMode
+} from '../interfaces/advanced-grid.interface';
+import { GridStateService } from './grid-state.service';
+import { ColumnManagementService } from './column-management.service';
+import { getCellValue } from '../utils/grid.utils';
+
+@Injectable()
+export class CellSelectionService<T = any> {
+  private gridService = inject<GridStateService<T>>(GridStateService);
+  private columnService = inject<ColumnManagementService<T>>(ColumnManagementService, { optional: true });
+  private document = inject(DOCUMENT, { optional: true });
+  private destroyRef = inject(DestroyRef, { optional: true });
+  private removeDragEndListener: (() => void) | null = null;
+
+  private _ranges = signal<CellRange[]>([]);
+  private _dragging = signal<boolean>(false);
+
+  // Events
+  private _selectionChanged = new Subject<CellRange[]>();
+
+  // Public observables
+  selectionChanged$ = this._selectionChanged.asObservable();
+
+  // Displayed rows and columns that cell positions refer to
+  rows = computed<GridRow<T>[]>(() => this.gridService.processedRows());
+  columns = computed<GridColumn<T>[]>(() => {
+    if (this.columnService && this.columnService.columns().length > 0) {
+      return [
+        ...this.columnService.lockedLeftColumns(),
+        ...this.columnService.centerColumns(),
+        ...this.columnService.lockedRightColumns()
+      ];
+    }
+    return this.gridService.columns().filter(column => !column.hidden);
+  });
+
+  // Computed states
+  ranges = computed(() => this._ranges());
+  activeRange = computed<CellRange | null>(() => {
+    const ranges = this._ranges();
+    return ranges.length > 0 ? ranges[ranges.length - 1] : null;
+  });
+  anchor = computed<CellPosition | null>(() => this.activeRange()?.anchor ?? null);
+  focus = computed<CellPosition | null>(() => this.activeRange()?.focus ?? null);
+  hasSelection = computed(() => this._ranges().length > 0);
+  isDragging = computed(() => this._dragging());
+
+  // Range bounds and focus cell shared by every cell lookup
+  private selectionLookup = computed(() => ({
+    bounds: this._ranges().map(range => this.getRangeBounds(range)),
+    focus: this.focus()
+  }));
+
+  constructor() {
+    this.destroyRef?.onDestroy(() => this.stopListeningForDragEnd());
+  }
+
+  // ===== SELECTION =====
+
+  selectCell(rowIndex: number, columnIndex: number, mode: CellSelectMode = 'replace') {
+    const position = this.clamp({ rowIndex, columnIndex });
+    if (!position) return;
+
+    const active = this.activeRange();
+
+    if (mode === 'extend' && active) {
+      this.setRanges([...this._ranges().slice(0, -1), { anchor: active.anchor, focus: position }]);
+    } else if (mode === 'add') {
+      this.setRanges([...this._ranges(), { anchor: position, focus: position }]);
+    } else {
+      this.setRanges([{ anchor: position, focus: position }]);
+    }
+  }
+
+  // Moves the focus cell by the given offsets, extending the active range when requested
+  moveFocus(rowDelta: number, columnDelta: number, extend = false) {
+    const focus = this.focus();
+    if (!focus) {
+      this.selectCell(0, 0);
+      return;
+    }
+
+    this.selectCell(
+      focus.rowIndex + rowDelta,
+      focus.columnIndex + columnDelta,
+      extend ? 'extend' : 'replace'
+    );
+  }
+
+  selectRange(range: CellRange, add = false) {
+    const anchor = this.clamp(range.anchor);
+    const focus = this.clamp(range.focus);
+    if (!anchor || !focus) return;
+
+    const ranges = add ? this._ranges() : [];
+    this.setRanges([...ranges, { anchor, focus }]);
+  }
+
+  selectColumn(column: string | number, add = false) {
+    const columnIndex = typeof column === 'number' ? column : this.getColumnIndex(column);
+    const lastRow = this.rows().length - 1;
+    if (columnIndex < 0 || lastRow < 0) return;
+
+    this.selectRange({
+      anchor: { rowIndex: 0, columnIndex },
+      focus: { rowIndex: lastRow, columnIndex }
+    }, add);
+  }
+
+  selectAll() {
+    const lastRow = this.rows().length - 1;
+    const lastColumn = this.columns().length - 1;
+    if (lastRow < 0 || lastColumn < 0) return;
+
+    this.selectRange({
+      anchor: { rowIndex: 0, columnIndex: 0 },
+      focus: { rowIndex: lastRow, columnIndex: lastColumn }
+    });
+  }
+
+  clear() {
+    if (this._ranges().length === 0) return;
+    this.setRanges([]);
+  }
+
+  // ===== MOUSE DRAG =====
+
+  beginDrag(rowIndex: number, columnIndex: number, mode: CellSelectMode = 'replace') {
+    this.selectCell(rowIndex, columnIndex, mode);
+    this._dragging.set(true);
+    this.listenForDragEnd();
+  }
+
+  dragTo(rowIndex: number, columnIndex: number) {
+    if (!this._dragging()) return;
+
+    const focus = this.focus();
+    if (focus && focus.rowIndex === rowIndex && focus.columnIndex === columnIndex) return;
+
+    this.selectCell(rowIndex, columnIndex, 'extend');
+  }
+
+  endDrag() {
+    this._dragging.set(false);
+    this.stopListeningForDragEnd();
+  }
+
+  // ===== QUERIES =====
+
+  isCellSelected(rowIndex: number, columnIndex: number): boolean {
+    return this.selectionLookup().bounds.some(bounds => this.containsCell(bounds, rowIndex, columnIndex));
+  }
+
+  isCellFocused(rowIndex: number, columnIndex: number): boolean {
+    const focus = this.selectionLookup().focus;
+    return !!focus && focus.rowIndex === rowIndex && focus.columnIndex === columnIndex;
+  }
+
+  getColumnIndex(columnId: string): number {
+    return this.columns().findIndex(column => column.id === columnId);
+  }
+
+  getRangeBounds(range: CellRange): CellRangeBounds {
+    return {
+      top: Math.min(range.anchor.rowIndex, range.focus.rowIndex),
+      bottom: Math.max(range.anchor.rowIndex, range.focus.rowIndex),
+      left: Math.min(range.anchor.columnIndex, range.focus.columnIndex),
+      right: Math.max(range.anchor.columnIndex, range.focus.columnIndex)
+    };
+  }
+
+  // Bounding box of every selected range, or null when nothing is selected
+  getSelectionBounds(): CellRangeBounds | null {
+    const ranges = this._ranges();
+    if (ranges.length === 0) return null;
+
+    return ranges.map(range => this.getRangeBounds(range)).reduce((acc, bounds) => ({
+      top: Math.min(acc.top, bounds.top),
+      bottom: Math.max(acc.bottom, bounds.bottom),
+      left: Math.min(acc.left, bounds.left),
+      right: Math.max(acc.right, bounds.right)
+    }));
+  }
+
+  getRangeValues(range: CellRange): any[][] {
+    const bounds = this.getRangeBounds(range);
+    return this.readValues(bounds, () => true);
+  }
+
+  // Values of the selection as rows of cells. With several ranges the result covers
+  // their bounding box and cells outside every range are null.
+  getSelectedValues(): any[][] {
+    const bounds = this.getSelectionBounds();
+    if (!bounds) return [];
+
+    const allBounds = this._ranges().map(range => this.getRangeBounds(range));
+    return this.readValues(bounds, (rowIndex, columnIndex) =>
+      allBounds.some(b => this.containsCell(b, rowIndex, columnIndex))
+    );
+  }
+
+  // State management
+  exportState() {
+    return {
+      ranges: this._ranges()
+    };
+  }
+
+  importState(state: any) {
+    if (state.ranges) this._ranges.set(state.ranges);
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  private setRanges(ranges: CellRange[]) {
+    this._ranges.set(ranges);
+    this._selectionChanged.next(ranges);
+  }
+
+  // One document listener for the drag, so a mouseup outside the grid still ends it
+  private listenForDragEnd() {
+    if (this.removeDragEndListener || !this.document) return;
+
+    const document = this.document;
+    const listener = () => this.endDrag();
+    document.addEventListener('mouseup', listener);
+    this.removeDragEndListener = () => document.removeEventListener('mouseup', listener);
+  }
+
+  private stopListeningForDragEnd() {
+    this.removeDragEndListener?.();
+    this.removeDragEndListener = null;
+  }
+
+  private clamp(position: CellPosition): CellPosition | null {
+    const rowCount = this.rows().length;
+    const columnCount = this.columns().length;
+    if (rowCount === 0 || columnCount === 0) return null;
+
+    return {
+      rowIndex: Math.max(0, Math.min(position.rowIndex, rowCount - 1)),
+      columnIndex: Math.max(0, Math.min(position.columnIndex, columnCount - 1))
+    };
+  }
+
+  private containsCell(bounds: CellRangeBounds, rowIndex: number, columnIndex: number): boolean {
+    return rowIndex >= bounds.top && rowIndex <= bounds.bottom &&
+      columnIndex >= bounds.left && columnIndex <= bounds.right;
+  }
+
+  private readValues(
+    bounds: CellRangeBounds,
+    include: (rowIndex: number, columnIndex: number) => boolean
+  ): any[][] {
+    const rows = this.rows();
+    const columns = this.columns();
+    const result: any[][] = [];
+
+    for (let rowIndex = bounds.top; rowIndex <= bounds.bottom && rowIndex < rows.length; rowIndex++) {
+      const row = rows[rowIndex];
+      const values: any[] = [];
+
+      for (let columnIndex = bounds.left; columnIndex <= bounds.right && columnIndex < columns.length; columnIndex++) {
+        // Group header rows have no cell values of their own
+        values.push(include(rowIndex, columnIndex) && !isGroupRow(row)
+          ? getCellValue(row.data, columns[columnIndex])
+          : null);
+      }
+
+      result.push(values);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,327 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { Observable, from, throwError } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { GridColumn, GridRow, isGroupRow } from '../interfaces/grid.interface';
+import {
+  CellEdit,
+  CellPosition,
+  CellRangeBounds,
+  ClipboardConfig,
+  ClipboardContent,
+  ClipboardPasteBatch,
+  DynamicColumn
+} from '../interfaces/advanced-grid.interface';
+import { GridStateService } from './grid-state.service';
+import { CellSelectionService } from './cell-selection.service';
+import { CellEditingService } from './cell-editing.service';
+import { SecurityService } from './security.service';
+import { getCellValue } from '../utils/grid.utils';
+import { escapeCSV, escapeXml, parseDelimited } from '../utils/delimited-text.utils';
+
+@Injectable()
+export class ClipboardService<T = any> {
+  private gridService = inject<GridStateService<T>>(GridStateService);
+  private selectionService = inject<CellSelectionService<T>>(CellSelectionService, { optional: true });
+  private editingService = inject<CellEditingService<T>>(CellEditingService, { optional: true });
+  private securityService = inject<SecurityService<T>>(SecurityService, { optional: true });
+
+  private _config = signal<ClipboardConfig>({
+    includeHeaders: false,
+    useFormatters: true
+  });
+
+  // Initialization
+  initialize(config: ClipboardConfig = {}) {
+    this._config.update(current => ({ ...current, ...config }));
+  }
+
+  // ===== COPY =====
+
+  // Serializes the selected cell ranges, or the selected rows when no range is selected
+  getSelectionContent(): ClipboardContent {
+    const bounds = this.selectionService?.getSelectionBounds();
+    if (bounds) {
+      return this.serializeRange(bounds);
+    }
+
+    const selectedIds = this.gridService.state().selection.selectedIds;
+    const rows = this.gridService.rows().filter(row => selectedIds.includes(row.id));
+    return this.serializeRows(rows, this.getColumns());
+  }
+
+  serializeRows(rows: GridRow<T>[], columns: GridColumn<T>[]): ClipboardContent {
+    const dataRows = rows.filter(row => !isGroupRow(row));
+
+    // Columns the user may not export are left out entirely
+    const exportable = this.securityService
+      ? columns.filter(column => this.securityService!.filterExportableColumns(
+          [column.id], dataRows.map(row => row.data)
+        ).length > 0)
+      : columns;
+
+    const cells = dataRows.map(row => exportable.map(column => this.formatCell(row, column)));
+    return this.buildContent(exportable, cells);
+  }
+
+  // Writes the selection to the system clipboard as TSV and HTML
+  copy(): Observable<ClipboardContent> {
+    const content = this.getSelectionContent();
+
+    if (typeof navigator === 'undefined' || !navigator.clipboard) {
+      return throwError(() => new Error('Clipboard API is not available'));
+    }
+
+    const write = typeof ClipboardItem !== 'undefined' && navigator.clipboard.write
+      ? navigator.clipboard.write([new ClipboardItem({
+          'text/plain': new Blob([content.text], { type: 'text/plain' }),
+          'text/html': new Blob([content.html], { type: 'text/html' })
+        })])
+      : navigator.clipboard.writeText(content.text);
+
+    return from(write).pipe(map(() => content));
+  }
+
+  // Fills a copy event directly, which needs no clipboard permission
+  writeToEvent(event: ClipboardEvent): boolean {
+    if (!event.clipboardData) return false;
+
+    const content = this.getSelectionContent();
+    if (content.rowCount === 0) return false;
+
+    event.clipboardData.setData('text/plain', content.text);
+    event.clipboardData.setData('text/html', content.html);
+    event.preventDefault();
+    return true;
+  }
+
+  // ===== PASTE =====
+
+  // Maps pasted TSV onto the grid starting at the target cell (the selection by default).
+  // A single pasted value fills the whole selected range, like a spreadsheet.
+  parsePaste(text: string, target?: CellPosition): ClipboardPasteBatch {
+    const values = parseDelimited(text, '\t');
+    const start = target ?? this.getPasteTarget();
+    if (values.length === 0 || !start) {
+      return { edits: [], target: null, valid: false };
+    }
+
+    const rows = this.selectionService ? this.selectionService.rows() : this.gridService.processedRows();
+    const columns = this.getColumns();
+    const selection = this.selectionService?.getSelectionBounds();
+
+    let bounds: CellRangeBounds = {
+      top: start.rowIndex,
+      left: start.columnIndex,
+      bottom: Math.min(start.rowIndex + values.length, rows.length) - 1,
+      right: Math.min(start.columnIndex + Math.max(...values.map(v => v.length)), columns.length) - 1
+    };
+
+    const isSingleValue = values.length === 1 && values[0].length === 1;
+    if (isSingleValue && !target && selection) {
+      bounds = selection;
+    }
+
+    const edits: CellEdit[] = [];
+    for (let rowIndex = bounds.top; rowIndex <= bounds.bottom; rowIndex++) {
+      const row = rows[rowIndex];
+      if (!row || isGroupRow(row)) continue;
+
+      for (let columnIndex = bounds.left; columnIndex <= bounds.right; columnIndex++) {
+        const raw = isSingleValue
+          ? values[0][0]
+          : values[rowIndex - bounds.top]?.[columnIndex - bounds.left];
+        if (raw === undefined) continue;
+
+        edits.push(this.createEdit(row, columns[columnIndex] as DynamicColumn<T>, raw));
+      }
+    }
+
+    return {
+      edits,
+      target: bounds,
+      valid: edits.length > 0 && edits.every(edit => edit.errors.length === 0)
+    };
+  }
+
+  // Applies a valid batch through CellEditingService and selects the pasted cells
+  applyPaste(batch: ClipboardPasteBatch): boolean {
+    if (!batch.valid || !this.editingService) return false;
+    if (!this.editingService.applyEdits(batch.edits)) return false;
+
+    if (batch.target && this.selectionService) {
+      this.selectionService.selectRange({
+        anchor: { rowIndex: batch.target.top, columnIndex: batch.target.left },
+        focus: { rowIndex: batch.target.bottom, columnIndex: batch.target.right }
+      });
+    }
+    return true;
+  }
+
+  pasteText(text: string, target?: CellPosition): ClipboardPasteBatch {
+    const batch = this.parsePaste(text, target);
+    this.applyPaste(batch);
+    return batch;
+  }
+
+  // Reads TSV from the system clipboard and pastes it at the selection
+  paste(): Observable<ClipboardPasteBatch> {
+    if (typeof navigator === 'undefined' || !navigator.clipboard?.readText) {
+      return throwError(() => new Error('Clipboard API is not available'));
+    }
+
+    return from(navigator.clipboard.readText()).pipe(
+      map(text => this.pasteText(text))
+    );
+  }
+
+  readFromEvent(event: ClipboardEvent): ClipboardPasteBatch | null {
+    const text = event.clipboardData?.getData('text/plain');
+    if (!text) return null;
+
+    event.preventDefault();
+    return this.pasteText(text);
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  private serializeRange(bounds: CellRangeBounds): ClipboardContent {
+    const rows = this.selectionService!.rows();
+    const columns = this.getColumns().slice(bounds.left, bounds.right + 1);
+    const rangeRows = rows.slice(bounds.top, bounds.bottom + 1);
+
+    const cells = rangeRows.map((row, rowOffset) => columns.map((column, columnOffset) => {
+      const selected = this.selectionService!.isCellSelected(bounds.top + rowOffset, bounds.left + columnOffset);
+      if (!selected || isGroupRow(row)) return '';
+      if (this.securityService && !this.securityService.canExportField(column.id, row.data)) return '';
+      return this.formatCell(row, column);
+    }));
+
+    return this.buildContent(columns, cells);
+  }
+
+  private buildContent(columns: GridColumn<T>[], cells: string[][]): ClipboardContent {
+    const includeHeaders = this._config().includeHeaders;
+    const headers = columns.map(column => column.header);
+    const escape = (value: string) => escapeCSV(value, '\t');
+
+    const lines = cells.map(row => row.map(escape).join('\t'));
+    if (includeHeaders) {
+      lines.unshift(headers.map(escape).join('\t'));
+    }
+
+    const head = includeHeaders
+      ? `<thead><tr>${headers.map(h => `<th>${escapeXml(h)}</th>`).join('')}</tr></thead>`
+      : '';
+    const body = cells
+      .map(row => `<tr>${row.map(value => `<td>${escapeXml(value)}</td>`).join('')}</tr>`)
+      .join('');
+
+    this.securityService?.logAction('export', 'clipboard', undefined, {
+      rows: cells.length,
+      columns: columns.map(column => column.id)
+    });
+
+    return {
+      text: lines.join('\n'),
+      html: `<table>${head}<tbody>${body}</tbody></table>`,
+      rowCount: cells.length,
+      columnCount: columns.length
+    };
+  }
+
+  private formatCell(row: GridRow<T>, column: GridColumn<T>): string {
+    const value = getCellValue(row.data, column);
+
+    if (this.securityService && !this.securityService.canReadField(column.id, row.data)) {
+      return '[RESTRICTED]';
+    }
+
+    let text: string;
+    if (column.formatter && this._config().useFormatters !== false) {
+      text = column.formatter(value, row.data);
+    } else if (value == null) {
+      text = '';
+    } else if (value instanceof Date) {
+      text = value.toISOString();
+    } else {
+      text = String(value);
+    }
+
+    return this.securityService
+      ? String(this.securityService.maskFieldValue(column.id, text, row.data) ?? '')
+      : text;
+  }
+
+  private createEdit(row: GridRow<T>, column: DynamicColumn<T>, raw: string): CellEdit {
+    const originalValue = getCellValue(row.data, column);
+    const { value, error } = this.convertValue(raw, column, originalValue);
+
+    const errors = error ? [error] : [];
+    if (!error) {
+      errors.push(...(this.editingService?.validateValue(row.id, column.id, value) ?? []));
+    }
+
+    return { rowId: row.id, columnId: column.id, originalValue, value, errors };
+  }
+
+  // Converts pasted text to the column's type, taken from its editor or the current value
+  private convertValue(raw: string, column: DynamicColumn<T>, currentValue: any): { value: any; error?: string } {
+    const text = raw.trim();
+    if (column.editor?.parse) {
+      return { value: column.editor.parse(text) };
+    }
+
+    const type = column.editor?.type ??
+      (typeof currentValue === 'number' ? 'number'
+        : typeof currentValue === 'boolean' ? 'boolean'
+        : currentValue instanceof Date ? 'date'
+        : 'text');
+
+    if (text === '' && type !== 'text') {
+      return { value: null };
+    }
+
+    switch (type) {
+      case 'number': {
+        const num = Number(text.replace(/,/g, ''));
+        return isNaN(num)
+          ? { value: raw, error: `${column.header} must be a number` }
+          : { value: num };
+      }
+      case 'boolean': {
+        const lower = text.toLowerCase();
+        if (['true', '1', 'yes'].includes(lower)) return { value: true };
+        if (['false', '0', 'no'].includes(lower)) return { value: false };
+        return { value: raw, error: `${column.header} must be true or false` };
+      }
+      case 'date': {
+        const date = new Date(text);
+        return isNaN(date.getTime())
+          ? { value: raw, error: `${column.header} must be a valid date` }
+          : { value: date };
+      }
+      case 'select': {
+        // Accept either the option value or its label
+        const options = column.editor?.options;
+        if (!options) return { value: raw };
+        const option = options.find(o => String(o.value) === text || o.label === text);
+        return option
+          ? { value: option.value }
+          : { value: raw, error: `${column.header} must be one of the available options` };
+      }
+      default:
+        return { value: raw };
+    }
+  }
+
+  private getPasteTarget(): CellPosition | null {
+    const bounds = this.selectionService?.getSelectionBounds();
+    return bounds ? { rowIndex: bounds.top, columnIndex: bounds.left } : null;
+  }
+
+  private getColumns(): GridColumn<T>[] {
+    return this.selectionService
+      ? this.selectionService.columns()
+      : this.gridService.columns().filter(column => !column.hidden);
+  }
+}
@@ -0,0 +1,1062 @@
+import { TestBed, fakeAsync, flushMicrotasks, tick } from '@angular/core/testing';
+import { HttpClient, provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Observable, Subject, of } from 'rxjs';
+import {
+  AdvancedFilter,
+  DataSourceAdapter,
+  DataSourceResult,
+  GraphQLConfig,
+  MutationError,
+  ODataConfig,
+  RemoteCacheEntry,
+  RemoteCacheStore,
+  RemoteDataConfig,
+  WebSocketConfig
+} from '../interfaces/advanced-grid.interface';
+import {
+  EventSourceDataSourceAdapter,
+  GraphQLDataSourceAdapter,
+  ODataDataSourceAdapter,
+  OfflineDataSourceAdapter,
+  OptimisticDataSourceAdapter,
+  RemoteDataSourceAdapter,
+  WebSocketDataSourceAdapter
+} from './data-source-adapters.service';
+import { SpringDataDialect, UnsupportedFilterError } from './data-source-dialects.service';
+import { InMemoryMutationQueueStorage } from './mutation-queue-storage.service';
+
+class FakeEventSource {
+  readyState = 0;
+  closed = false;
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  private listeners = new Map<string, ((event: Event) => void)[]>();
+
+  constructor(public url: string, public init: EventSourceInit) {}
+
+  addEventListener(type: string, listener: (event: Event) => void) {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  close() {
+    this.readyState = 2;
+    this.closed = true;
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.();
+  }
+
+  emit(type: string, data: any, lastEventId = '') {
+    const event = { type, data: JSON.stringify(data), lastEventId } as MessageEvent;
+    this.listeners.get(type)?.forEach(listener => listener(event));
+  }
+
+  // The browser gave up reconnecting
+  fail() {
+    this.readyState = 2;
+    this.onerror?.();
+  }
+}
+
+describe('EventSourceDataSourceAdapter', () => {
+  let sources: FakeEventSource[];
+  let adapter: EventSourceDataSourceAdapter;
+
+  const rows = [
+    { id: 1, name: 'Ada', role: 'admin' },
+    { id: 2, name: 'Bob', role: 'user' },
+    { id: 3, name: 'Cy', role: 'user' }
+  ];
+
+  function createAdapter(config: Partial<ConstructorParameters<typeof EventSourceDataSourceAdapter>[0]> = {}) {
+    return new EventSourceDataSourceAdapter({
+      url: '/api/stream',
+      reconnectInterval: 1000,
+      eventSourceFactory: (url, init) => {
+        const source = new FakeEventSource(url, init);
+        sources.push(source);
+        return source as unknown as EventSource;
+      },
+      ...config
+    });
+  }
+
+  beforeEach(() => {
+    sources = [];
+  });
+
+  afterEach(() => {
+    adapter.disconnect();
+  });
+
+  it('opens the stream through eventSourceFactory on first load', () => {
+    adapter = createAdapter({ withCredentials: true });
+    adapter.load({}).subscribe();
+    adapter.load({}).subscribe();
+
+    expect(sources.length).toBe(1);
+    expect(sources[0].url).toBe('/api/stream');
+    expect(sources[0].init).toEqual({ withCredentials: true });
+  });
+
+  it('applies filters, sort and paging to streamed rows', () => {
+    adapter = createAdapter();
+    let result: DataSourceResult<any> | undefined;
+    adapter.load({
+      filters: [{ columnId: 'role', operator: 'equals', value: 'user' }],
+      sort: [{ field: 'name', direction: 'desc' }],
+      page: 0,
+      pageSize: 1
+    }).subscribe(r => result = r);
+
+    sources[0].emit('message', { type: 'data', data: rows });
+
+    expect(result?.data).toEqual([rows[2]]);
+    expect(result?.totalCount).toBe(2);
+  });
+
+  it('handles named events without a type field', () => {
+    adapter = createAdapter();
+    let data: any[] = [];
+    adapter.data$.subscribe(d => data = d);
+    adapter.load({}).subscribe();
+
+    sources[0].emit('data', { data: rows });
+    sources[0].emit('update', { data: { id: 2, name: 'Bo', role: 'user' } });
+    sources[0].emit('delete', { id: 1 });
+
+    expect(data.map(row => row.name)).toEqual(['Bo', 'Cy']);
+  });
+
+  it('reopens a closed stream after reconnectInterval and resumes from the last event id', fakeAsync(() => {
+    adapter = createAdapter();
+    let connected = false;
+    adapter.connected$.subscribe(c => connected = c);
+    adapter.load({}).subscribe();
+    sources[0].open();
+    sources[0].emit('message', { type: 'data', data: rows }, 'evt-7');
+
+    expect(connected).toBeTrue();
+
+    sources[0].fail();
+    expect(connected).toBeFalse();
+    expect(sources[0].closed).toBeTrue();
+    expect(sources.length).toBe(1);
+
+    tick(1000);
+
+    expect(sources.length).toBe(2);
+    expect(sources[1].url).toBe('/api/stream?lastEventId=evt-7');
+    expect(adapter.lastEventId).toBe('evt-7');
+
+    sources[1].open();
+    expect(connected).toBeTrue();
+  }));
+
+  it('leaves retries to the browser while the stream is still connecting', fakeAsync(() => {
+    adapter = createAdapter();
+    adapter.load({}).subscribe();
+    sources[0].readyState = 0;
+    sources[0].onerror?.();
+
+    tick(5000);
+
+    expect(sources.length).toBe(1);
+    expect(sources[0].closed).toBeFalse();
+  }));
+
+  it('gives up after maxReconnectAttempts', fakeAsync(() => {
+    adapter = createAdapter({ maxReconnectAttempts: 2 });
+    spyOn(console, 'error');
+    adapter.load({}).subscribe();
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      sources[sources.length - 1].fail();
+      tick(1000);
+    }
+
+    expect(sources.length).toBe(3);
+    expect(console.error).toHaveBeenCalledWith('Max reconnection attempts reached');
+  }));
+
+  it('sends params as a query and starts a fresh stream when they change in query mode', fakeAsync(() => {
+    adapter = createAdapter({ params: 'query', lastEventIdParam: 'since' });
+    adapter.load({ page: 0, pageSize: 10 }).subscribe();
+    sources[0].emit('message', { type: 'data', data: rows, totalCount: 30 }, 'evt-1');
+
+    adapter.load({ page: 0, pageSize: 10 }).subscribe();
+    expect(sources.length).toBe(1);
+
+    adapter.load({ page: 1, pageSize: 10 }).subscribe();
+    expect(sources.length).toBe(2);
+    expect(sources[0].closed).toBeTrue();
+    expect(sources[1].url).not.toContain('since=');
+
+    sources[1].emit('message', { type: 'data', data: rows }, 'evt-2');
+    sources[1].fail();
+    tick(1000);
+    expect(sources[2].url).toContain('since=evt-2');
+  }));
+});
+
+describe('GraphQLDataSourceAdapter', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+
+  const query = 'query Users($first: Int, $after: String) { users { totalCount } }';
+
+  function createAdapter(config: Partial<GraphQLConfig> = {}) {
+    return new GraphQLDataSourceAdapter(http, { endpoint: '/graphql', query, dataPath: 'users', ...config });
+  }
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('posts the query with variables mapped from the params', () => {
+    const adapter = createAdapter({ totalCountPath: 'usersCount', headers: { Authorization: 'Bearer t' } });
+    let result: DataSourceResult<any> | undefined;
+    adapter.load({
+      page: 1,
+      pageSize: 2,
+      sort: [{ field: 'name', direction: 'asc' }],
+      search: 'a'
+    }).subscribe(r => result = r);
+
+    const request = httpMock.expectOne('/graphql');
+    expect(request.request.method).toBe('POST');
+    expect(request.request.headers.get('Authorization')).toBe('Bearer t');
+    expect(request.request.body).toEqual({
+      query,
+      variables: { page: 1, pageSize: 2, sort: [{ field: 'name', direction: 'asc' }], search: 'a' }
+    });
+
+    request.flush({ data: { users: [{ id: 3 }, { id: 4 }], usersCount: 9 } });
+    expect(result).toEqual({ data: [{ id: 3 }, { id: 4 }], totalCount: 9, page: 1, pageSize: 2 });
+  });
+
+  it('renames or drops variables through variableNames', () => {
+    const adapter = createAdapter({ variableNames: { page: null, pageSize: 'limit', offset: 'offset', search: null } });
+    adapter.load({ page: 2, pageSize: 10, search: 'x' }).subscribe();
+
+    const request = httpMock.expectOne('/graphql');
+    expect(request.request.body.variables).toEqual({ limit: 10, offset: 20 });
+    request.flush({ data: { users: [] } });
+  });
+
+  it('pages a connection by the end cursor of the previous page', () => {
+    const adapter = createAdapter({ connection: true });
+    let pageInfo: any;
+    adapter.pageInfo$.subscribe(info => pageInfo = info);
+    let result: DataSourceResult<any> | undefined;
+
+    adapter.load({ page: 0, pageSize: 2 }).subscribe(r => result = r);
+    const first = httpMock.expectOne('/graphql');
+    expect(first.request.body.variables).toEqual({ first: 2 });
+    first.flush({ data: { users: {
+      edges: [{ node: { id: 1 }, cursor: 'c1' }, { node: { id: 2 }, cursor: 'c2' }],
+      pageInfo: { hasNextPage: true, endCursor: 'c2' }
+    } } });
+
+    // No totalCount: one row beyond what is known while more pages exist
+    expect(result?.data).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(result?.totalCount).toBe(3);
+    expect(pageInfo).toEqual({ hasNextPage: true, endCursor: 'c2' });
+
+    adapter.load({ page: 1, pageSize: 2 }).subscribe(r => result = r);
+    const second = httpMock.expectOne('/graphql');
+    expect(second.request.body.variables).toEqual({ first: 2, after: 'c2' });
+    second.flush({ data: { users: { edges: [{ node: { id: 3 }, cursor: 'c3' }], pageInfo: { hasNextPage: false } } } });
+    expect(result?.totalCount).toBe(3);
+  });
+
+  it('reports the page info of a connection page', () => {
+    const adapter = createAdapter({ connection: true });
+    let result: DataSourceResult<any> | undefined;
+
+    adapter.load({ page: 0, pageSize: 2 }).subscribe(r => result = r);
+    httpMock.expectOne('/graphql').flush({ data: { users: {
+      edges: [{ node: { id: 1 }, cursor: 'c1' }, { node: { id: 2 }, cursor: 'c2' }],
+      pageInfo: { hasNextPage: true }
+    } } });
+
+    expect(result).toEqual(jasmine.objectContaining({ startCursor: 'c1', endCursor: 'c2', hasNext: true, hasPrevious: false }));
+  });
+
+  it('pages forward and backward from the cursors of a cursor-mode grid', () => {
+    const adapter = createAdapter({ connection: true });
+    let result: DataSourceResult<any> | undefined;
+
+    adapter.load({ page: 0, pageSize: 2, after: 'c2' }).subscribe(r => result = r);
+    const next = httpMock.expectOne('/graphql');
+    expect(next.request.body.variables).toEqual({ first: 2, after: 'c2' });
+    next.flush({ data: { users: {
+      edges: [{ node: { id: 3 }, cursor: 'c3' }],
+      pageInfo: { hasNextPage: false, hasPreviousPage: false, startCursor: 'c3', endCursor: 'c3' }
+    } } });
+    expect(result).toEqual(jasmine.objectContaining({ startCursor: 'c3', endCursor: 'c3', hasNext: false, hasPrevious: true }));
+
+    adapter.load({ page: 0, pageSize: 2, before: 'c3' }).subscribe(r => result = r);
+    const previous = httpMock.expectOne('/graphql');
+    expect(previous.request.body.variables).toEqual({ last: 2, before: 'c3' });
+    previous.flush({ data: { users: {
+      edges: [{ node: { id: 1 }, cursor: 'c1' }, { node: { id: 2 }, cursor: 'c2' }],
+      pageInfo: { hasNextPage: false, hasPreviousPage: false }
+    } } });
+    expect(result).toEqual(jasmine.objectContaining({ startCursor: 'c1', endCursor: 'c2', hasNext: true, hasPrevious: false }));
+  });
+
+  it('refuses a connection page whose cursor is unknown and forgets cursors when the sort changes', () => {
+    const adapter = createAdapter({ connection: true });
+    let error: Error | undefined;
+
+    adapter.load({ page: 0, pageSize: 2 }).subscribe();
+    httpMock.expectOne('/graphql').flush({ data: { users: {
+      edges: [{ node: { id: 1 }, cursor: 'c1' }],
+      pageInfo: { hasNextPage: true, endCursor: 'c1' }
+    } } });
+
+    adapter.load({ page: 1, pageSize: 2, sort: [{ field: 'id', direction: 'desc' }] })
+      .subscribe({ error: e => error = e });
+
+    expect(error?.message).toContain('must be loaded in order');
+    httpMock.expectNone('/graphql');
+  });
+
+  it('reports GraphQL errors sent with a 200 status', () => {
+    const adapter = createAdapter();
+    let error: Error | undefined;
+    const loading: boolean[] = [];
+    adapter.loading$.subscribe(l => loading.push(l));
+
+    adapter.load({}).subscribe({ error: e => error = e });
+    httpMock.expectOne('/graphql').flush({ data: null, errors: [{ message: 'Forbidden' }, { message: 'Denied' }] });
+
+    expect(error?.message).toBe('Forbidden; Denied');
+    expect(loading).toEqual([false, true, false]);
+  });
+
+  it('runs configured mutations and reads the result path', () => {
+    const adapter = createAdapter({
+      mutations: {
+        update: { mutation: 'mutation Update($id: ID!, $input: UserInput!) { updateUser }', resultPath: 'updateUser.user' },
+        delete: { mutation: 'mutation Delete($userId: ID!) { deleteUser }', variables: id => ({ userId: id }) }
+      }
+    });
+    let updated: any;
+    let deleted = false;
+
+    adapter.update!({ id: 5, name: 'Eve' }).subscribe(u => updated = u);
+    const update = httpMock.expectOne('/graphql');
+    expect(update.request.body.variables).toEqual({ id: 5, input: { id: 5, name: 'Eve' } });
+    update.flush({ data: { updateUser: { user: { id: 5, name: 'Eve', version: 2 } } } });
+    expect(updated).toEqual({ id: 5, name: 'Eve', version: 2 });
+
+    adapter.delete!(5).subscribe(() => deleted = true);
+    const remove = httpMock.expectOne('/graphql');
+    expect(remove.request.body.variables).toEqual({ userId: 5 });
+    remove.flush({ data: { deleteUser: true } });
+    expect(deleted).toBeTrue();
+  });
+
+  it('fails mutations that are not configured without a request', () => {
+    const adapter = createAdapter();
+    let error: Error | undefined;
+
+    adapter.create!({ name: 'New' }).subscribe({ error: e => error = e });
+
+    expect(error?.message).toBe('GraphQL create mutation is not configured');
+  });
+});
+
+class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.CONNECTING;
+  sent: any[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  constructor(public url: string, public protocols?: string[]) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = FakeWebSocket.CLOSED;
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: any) {
+    this.onmessage?.({ data: JSON.stringify(message) } as MessageEvent);
+  }
+
+  drop() {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.();
+  }
+
+  sentOfType(type: string): any[] {
+    return this.sent.filter(message => message.type === type);
+  }
+}
+
+describe('WebSocketDataSourceAdapter', () => {
+  const originalWebSocket = globalThis.WebSocket;
+  let adapter: WebSocketDataSourceAdapter;
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    (globalThis as any).WebSocket = FakeWebSocket;
+    spyOn(console, 'log');
+  });
+
+  afterEach(() => {
+    adapter.disconnect();
+    (globalThis as any).WebSocket = originalWebSocket;
+  });
+
+  it('reports the filtered row count with the requested page', () => {
+    adapter = new WebSocketDataSourceAdapter({ url: 'ws://test' });
+    const socket = FakeWebSocket.instances[0];
+    socket.open();
+    let result: DataSourceResult<any> | undefined;
+    adapter.load({
+      page: 0,
+      pageSize: 1,
+      filters: [{ columnId: 'n', operator: 'greaterThan', value: 1 }],
+      sort: [{ field: 'n', direction: 'desc' }]
+    }).subscribe(r => result = r);
+
+    socket.receive({ type: 'data', data: [{ id: 1, n: 1 }, { id: 2, n: 2 }, { id: 3, n: 3 }] });
+
+    expect(result).toEqual({ data: [{ id: 3, n: 3 }], totalCount: 2, page: 0, pageSize: 1 });
+  });
+});
+
+describe('WebSocketDataSourceAdapter (protocol v2)', () => {
+  const originalWebSocket = globalThis.WebSocket;
+  let adapter: WebSocketDataSourceAdapter;
+  let data: any[];
+
+  function createAdapter(config: Partial<WebSocketConfig> = {}) {
+    adapter = new WebSocketDataSourceAdapter({ url: 'ws://test', protocol: 'v2', heartbeatInterval: 0, ...config });
+    adapter.data$.subscribe(d => data = d);
+    return FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+  }
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    data = [];
+    (globalThis as any).WebSocket = FakeWebSocket;
+    spyOn(console, 'log');
+  });
+
+  afterEach(() => {
+    adapter.disconnect();
+    (globalThis as any).WebSocket = originalWebSocket;
+  });
+
+  it('subscribes with the load params once the socket opens', () => {
+    const socket = createAdapter();
+    let result: DataSourceResult<any> | undefined;
+    adapter.load({ page: 0, pageSize: 2 }).subscribe(r => result = r);
+    expect(socket.sent).toEqual([]);
+
+    socket.open();
+    expect(socket.sent).toEqual([{ type: 'subscribe', subscriptionId: 'sub-1', params: { page: 0, pageSize: 2 } }]);
+
+    socket.receive({ type: 'snapshot', subscriptionId: 'sub-1', seq: 1, data: [{ id: 1 }, { id: 2 }], totalCount: 10 });
+    expect(result).toEqual({ data: [{ id: 1 }, { id: 2 }], totalCount: 10, page: 0, pageSize: 2 });
+  });
+
+  it('replaces the subscription when the params change', () => {
+    const socket = createAdapter();
+    socket.open();
+    adapter.load({ page: 0 }).subscribe();
+    adapter.load({ page: 0 }).subscribe();
+    adapter.load({ page: 1 }).subscribe();
+
+    expect(socket.sent).toEqual([
+      { type: 'subscribe', subscriptionId: 'sub-1', params: { page: 0 } },
+      { type: 'unsubscribe', subscriptionId: 'sub-1' },
+      { type: 'subscribe', subscriptionId: 'sub-2', params: { page: 1 } }
+    ]);
+
+    // Late messages of the old subscription are dropped
+    socket.receive({ type: 'snapshot', subscriptionId: 'sub-1', seq: 1, data: [{ id: 1 }] });
+    expect(data).toEqual([]);
+  });
+
+  it('holds back the previous subscription\'s rows until the new snapshot arrives', () => {
+    const socket = createAdapter();
+    socket.open();
+    adapter.load({ page: 0 }).subscribe();
+    socket.receive({ type: 'snapshot', subscriptionId: 'sub-1', seq: 1, data: [{ id: 1 }], totalCount: 3 });
+
+    const results: DataSourceResult<any>[] = [];
+    adapter.load({ page: 1 }).subscribe(r => results.push(r));
+    expect(results).toEqual([]);
+
+    socket.receive({ type: 'snapshot', subscriptionId: 'sub-2', seq: 1, data: [{ id: 2 }] });
+    expect(results).toEqual([{ data: [{ id: 2 }], totalCount: 1, page: 1, pageSize: undefined }]);
+  });
+
+  it('applies deltas in sequence and ignores duplicates', () => {
+    const socket = createAdapter();
+    socket.open();
+    adapter.load({}).subscribe();
+    socket.receive({ type: 'snapshot', subscriptionId: 'sub-1', seq: 4, data: [{ id: 1, n: 'a' }, { id: 2, n: 'b' }] });
+
+    socket.receive({ type: 'update', subscriptionId: 'sub-1', seq: 5, data: { id: 1, n: 'A' } });
+    socket.receive({ type: 'update', subscriptionId: 'sub-1', seq: 5, data: { id: 1, n: 'stale' } });
+    socket.receive({ type: 'patch', subscriptionId: 'sub-1', seq: 6, id: 2, patch: [{ op: 'replace', path: '/n', value: 'B' }] });
+    socket.receive({ type: 'create', subscriptionId: 'sub-1', seq: 7, data: { id: 3, n: 'c' } });
+    socket.receive({ type: 'delete', subscriptionId: 'sub-1', seq: 8, id: 1 });
+
+    expect(data).toEqual([{ id: 2, n: 'B' }, { id: 3, n: 'c' }]);
+  });
+
+  it('resubscribes on a sequence gap and ignores deltas until the next snapshot', () => {
+    const socket = createAdapter();
+    socket.open();
+    adapter.load({ pageSize: 5 }).subscribe();
+    socket.receive({ type: 'snapshot', subscriptionId: 'sub-1', seq: 1, data: [{ id: 1, n: 'a' }] });
+
+    socket.receive({ type: 'update', subscriptionId: 'sub-1', seq: 3, data: { id: 1, n: 'gap' } });
+    expect(socket.sentOfType('subscribe')).toEqual([
+      { type: 'subscribe', subscriptionId: 'sub-1', params: { pageSize: 5 } },
+      { type: 'subscribe', subscriptionId: 'sub-1', params: { pageSize: 5 } }
+    ]);
+
+    socket.receive({ type: 'update', subscriptionId: 'sub-1', seq: 4, data: { id: 1, n: 'early' } });
+    expect(data).toEqual([{ id: 1, n: 'a' }]);
+
+    socket.receive({ type: 'snapshot', subscriptionId: 'sub-1', seq: 4, data: [{ id: 1, n: 'fresh' }] });
+    socket.receive({ type: 'update', subscriptionId: 'sub-1', seq: 5, data: { id: 1, n: 'next' } });
+    expect(data).toEqual([{ id: 1, n: 'next' }]);
+  });
+
+  it('resubscribes when a patch no longer applies', () => {
+    const socket = createAdapter();
+    spyOn(console, 'error');
+    socket.open();
+    adapter.load({}).subscribe();
+    socket.receive({ type: 'snapshot', subscriptionId: 'sub-1', seq: 1, data: [{ id: 1, tags: [] }] });
+
+    socket.receive({ type: 'patch', subscriptionId: 'sub-1', seq: 2, id: 1, patch: [{ op: 'remove', path: '/tags/0' }] });
+
+    expect(socket.sentOfType('subscribe').length).toBe(2);
+    expect(data).toEqual([{ id: 1, tags: [] }]);
+  });
+
+  it('completes mutations on ack and fails them on nack', () => {
+    const socket = createAdapter();
+    socket.open();
+    let updated: any;
+    let error: Error | undefined;
+
+    adapter.update!({ id: 1, n: 'x' }).subscribe(u => updated = u);
+    adapter.delete!(2).subscribe({ error: e => error = e });
+    const [update, remove] = socket.sent;
+    expect(update).toEqual({ type: 'update', data: { id: 1, n: 'x' }, requestId: 'req-1' });
+    expect(remove).toEqual({ type: 'delete', id: 2, requestId: 'req-2' });
+
+    socket.receive({ type: 'ack', requestId: 'req-1', data: { id: 1, n: 'x', version: 3 } });
+    socket.receive({ type: 'nack', requestId: 'req-2', error: 'Row is locked' });
+
+    expect(updated).toEqual({ id: 1, n: 'x', version: 3 });
+    expect(error?.message).toBe('Row is locked');
+  });
+
+  it('fails a mutation that is not acked within ackTimeout', fakeAsync(() => {
+    const socket = createAdapter({ ackTimeout: 500 });
+    socket.open();
+    let error: Error | undefined;
+
+    adapter.create!({ n: 'new' }).subscribe({ error: e => error = e });
+    tick(500);
+
+    expect(error?.message).toBe('No ack for create within 500ms');
+    // A late ack is ignored
+    socket.receive({ type: 'ack', requestId: 'req-1' });
+  }));
+
+  it('resubscribes and resends unacked mutations with their request id after a reconnect', fakeAsync(() => {
+    const first = createAdapter({ reconnect: true, reconnectInterval: 100 });
+    first.open();
+    adapter.load({ page: 2 }).subscribe();
+    let created: any;
+    adapter.create!({ n: 'new' }).subscribe(c => created = c);
+
+    first.drop();
+    tick(100);
+    const second = FakeWebSocket.instances[1];
+    second.open();
+
+    expect(second.sent).toEqual([
+      { type: 'subscribe', subscriptionId: 'sub-1', params: { page: 2 } },
+      { type: 'create', data: { n: 'new' }, requestId: 'req-1' }
+    ]);
+
+    second.receive({ type: 'ack', requestId: 'req-1', data: { id: 9, n: 'new' } });
+    expect(created).toEqual({ id: 9, n: 'new' });
+  }));
+});
+
+describe('ODataDataSourceAdapter', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+
+  function createAdapter(config: Partial<ODataConfig> = {}) {
+    return new ODataDataSourceAdapter(http, { endpoint: '/odata/Orders', ...config });
+  }
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('translates filter operators into $filter expressions', () => {
+    const adapter = createAdapter({ fieldMap: { customer: 'Customer/Name' }, stringFields: ['note'] });
+    const cases: [AdvancedFilter, string | null][] = [
+      [{ columnId: 'customer', operator: 'equals', value: "O'Neil" }, "tolower(Customer/Name) eq 'o''neil'"],
+      [{ columnId: 'name', operator: 'contains', value: 'Ab', caseSensitive: true }, "contains(name,'Ab')"],
+      [{ columnId: 'total', operator: 'between', value: 10, value2: 20 }, '(total ge 10 and total le 20)'],
+      [{ columnId: 'status', operator: 'in', value: ['a', 'b'] }, "(status eq 'a' or status eq 'b')"],
+      [{ columnId: 'status', operator: 'in', value: [] }, 'false'],
+      [{ columnId: 'status', operator: 'notIn', value: [1, 2] }, '(status ne 1 and status ne 2)'],
+      [{ columnId: 'note', operator: 'isEmpty', value: null }, "(note eq null or note eq '')"],
+      [{ columnId: 'shippedAt', operator: 'isEmpty', value: null }, 'shippedAt eq null'],
+      [{ columnId: 'shippedAt', operator: 'isNotEmpty', value: null }, 'shippedAt ne null'],
+      [{ columnId: 'code', operator: 'regex', value: '^A' }, null]
+    ];
+
+    cases.forEach(([filter, expected]) => expect(adapter.buildFilter([filter])).toBe(expected));
+  });
+
+  it('uses the in operator and matchesPattern for OData 4.01', () => {
+    const adapter = createAdapter({ version: '4.01' });
+
+    expect(adapter.buildFilter([{ columnId: 'status', operator: 'in', value: [1, 2] }])).toBe('status in (1,2)');
+    expect(adapter.buildFilter([{ columnId: 'status', operator: 'notIn', value: [1] }])).toBe('not (status in (1))');
+    expect(adapter.buildFilter([{ columnId: 'code', operator: 'regex', value: '^A' }])).toBe("matchesPattern(code,'^A')");
+  });
+
+  it('joins and-filters with a group of or-filters', () => {
+    const adapter = createAdapter();
+
+    expect(adapter.buildFilter([
+      { columnId: 'a', operator: 'greaterThan', value: 1 },
+      { columnId: 'b', operator: 'lessThan', value: 2, condition: 'or' },
+      { columnId: 'c', operator: 'equals', value: 3, condition: 'or' }
+    ])).toBe('a gt 1 and (b lt 2 or c eq 3)');
+  });
+
+  it('addresses updates and deletes by key under a templated endpoint', () => {
+    const adapter = createAdapter({ endpoint: '/odata/{tenant}/Orders', pathParams: { tenant: 'acme' } });
+
+    adapter.update!({ id: 'A-1' } as any).subscribe();
+    httpMock.expectOne(request => request.method === 'PUT' && request.url === "/odata/acme/Orders('A-1')").flush({});
+
+    adapter.delete!(7).subscribe();
+    httpMock.expectOne(request => request.method === 'DELETE' && request.url === '/odata/acme/Orders(7)').flush(null);
+  });
+
+  it('fills an itemEndpoint with the path params and key literal', () => {
+    const adapter = createAdapter({
+      endpoint: '/odata/{tenant}/Orders',
+      itemEndpoint: '/odata/{tenant}/Orders({id})',
+      pathParams: { tenant: 'acme' }
+    });
+
+    adapter.delete!(7).subscribe();
+    httpMock.expectOne(request => request.method === 'DELETE' && request.url === '/odata/acme/Orders(7)').flush(null);
+  });
+});
+
+describe('RemoteDataSourceAdapter caching', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+
+  const page = (...ids: number[]) => ({ data: ids.map(id => ({ id })), totalCount: 10 });
+  const usersRequest = (pageIndex: number) => (request: { url: string; params: { get(name: string): string | null } }) =>
+    request.url === '/api/users' && request.params.get('page') === String(pageIndex);
+
+  function createAdapter(config: Partial<RemoteDataConfig> = {}) {
+    return new RemoteDataSourceAdapter(http, { endpoint: '/api/users', cache: true, cacheTTL: 1000, ...config });
+  }
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('shares one request between concurrent loads of the same params', () => {
+    const adapter = createAdapter();
+    const results: DataSourceResult<any>[] = [];
+    let loading = false;
+    adapter.loading$.subscribe(l => loading = l);
+
+    adapter.load({ page: 0, pageSize: 2, sort: [{ field: 'id', direction: 'asc' }] }).subscribe(r => results.push(r));
+    adapter.load({ sort: [{ field: 'id', direction: 'asc' }], pageSize: 2, page: 0 }).subscribe(r => results.push(r));
+    adapter.load({ page: 1, pageSize: 2 }).subscribe(r => results.push(r));
+
+    const first = httpMock.expectOne(usersRequest(0));
+    const second = httpMock.expectOne(usersRequest(1));
+    first.flush(page(1, 2));
+    expect(loading).toBeTrue();
+
+    second.flush(page(3, 4));
+    expect(results).toEqual([page(1, 2), page(1, 2), page(3, 4)]);
+    expect(loading).toBeFalse();
+  });
+
+  it('serves fresh pages from the cache and refetches expired ones', fakeAsync(() => {
+    const adapter = createAdapter();
+    let result: DataSourceResult<any> | undefined;
+
+    adapter.load({ page: 0 }).subscribe();
+    httpMock.expectOne(usersRequest(0)).flush(page(1));
+
+    tick(500);
+    adapter.load({ page: 0 }).subscribe(r => result = r);
+    httpMock.expectNone('/api/users');
+    expect(result).toEqual(page(1));
+
+    tick(1000);
+    adapter.load({ page: 0 }).subscribe(r => result = r);
+    httpMock.expectOne(usersRequest(0)).flush(page(2));
+    expect(result).toEqual(page(2));
+  }));
+
+  it('emits an expired page at once and then the revalidated one with staleWhileRevalidate', fakeAsync(() => {
+    const adapter = createAdapter({ staleWhileRevalidate: true });
+    adapter.load({ page: 0 }).subscribe();
+    httpMock.expectOne(usersRequest(0)).flush(page(1));
+    tick(1500);
+
+    const results: DataSourceResult<any>[] = [];
+    let completed = false;
+    adapter.load({ page: 0 }).subscribe({ next: r => results.push(r), complete: () => completed = true });
+
+    expect(results).toEqual([page(1)]);
+    httpMock.expectOne(usersRequest(0)).flush(page(1, 2));
+    expect(results).toEqual([page(1), page(1, 2)]);
+    expect(completed).toBeTrue();
+  }));
+
+  it('keeps revalidating after the caller unsubscribes from the stale page', fakeAsync(() => {
+    const adapter = createAdapter({ staleWhileRevalidate: true });
+    adapter.load({ page: 0 }).subscribe();
+    httpMock.expectOne(usersRequest(0)).flush(page(1));
+    tick(1500);
+
+    adapter.load({ page: 0 }).subscribe().unsubscribe();
+    httpMock.expectOne(usersRequest(0)).flush(page(5));
+
+    let result: DataSourceResult<any> | undefined;
+    adapter.load({ page: 0 }).subscribe(r => result = r);
+    httpMock.expectNone('/api/users');
+    expect(result).toEqual(page(5));
+  }));
+
+  it('keeps the stale page when revalidation fails', fakeAsync(() => {
+    const adapter = createAdapter({ staleWhileRevalidate: true });
+    adapter.load({ page: 0 }).subscribe();
+    httpMock.expectOne(usersRequest(0)).flush(page(1));
+    tick(1500);
+
+    const results: DataSourceResult<any>[] = [];
+    let error: any;
+    adapter.load({ page: 0 }).subscribe({ next: r => results.push(r), error: e => error = e });
+    httpMock.expectOne(usersRequest(0)).flush('down', { status: 503, statusText: 'Unavailable' });
+
+    expect(results).toEqual([page(1)]);
+    expect(error).toBeUndefined();
+  }));
+
+  it('fails a load whose filters the dialect cannot express without sending it', () => {
+    const adapter = createAdapter({ dialect: new SpringDataDialect() });
+    let error: any;
+    let loading: boolean | undefined;
+    adapter.loading$.subscribe(l => loading = l);
+    adapter.load({ filters: [{ columnId: 'name', operator: 'contains', value: 'x' }] }).subscribe({ error: e => error = e });
+
+    httpMock.expectNone('/api/users');
+    expect(error instanceof UnsupportedFilterError).toBe(true);
+    expect(loading).toBe(false);
+  });
+
+  it('does not cache a response to a request made before the cache was invalidated', () => {
+    const adapter = createAdapter();
+    adapter.load({ page: 0 }).subscribe();
+    const request = httpMock.expectOne(usersRequest(0));
+
+    adapter.invalidateCache();
+    request.flush(page(1));
+
+    adapter.load({ page: 0 }).subscribe();
+    httpMock.expectOne(usersRequest(0)).flush(page(1));
+  });
+
+  it('drops only the pages tagged with an invalidated row or tag', () => {
+    const adapter = createAdapter({ cacheTags: params => [`page:${params.page}`] });
+    adapter.load({ page: 0 }).subscribe();
+    adapter.load({ page: 1 }).subscribe();
+    adapter.load({ page: 2 }).subscribe();
+    httpMock.expectOne(usersRequest(0)).flush(page(1, 2));
+    httpMock.expectOne(usersRequest(1)).flush(page(3, 4));
+    httpMock.expectOne(usersRequest(2)).flush(page(5, 6));
+
+    adapter.invalidateRow(3);
+    adapter.invalidateCache(['page:2']);
+
+    adapter.load({ page: 0 }).subscribe();
+    adapter.load({ page: 1 }).subscribe();
+    adapter.load({ page: 2 }).subscribe();
+    httpMock.expectNone(usersRequest(0));
+    httpMock.expectOne(usersRequest(1)).flush(page(3, 4));
+    httpMock.expectOne(usersRequest(2)).flush(page(5, 6));
+  });
+
+  it('evicts the least recently used page beyond cacheMaxEntries', () => {
+    const adapter = createAdapter({ cacheMaxEntries: 2 });
+    [0, 1].forEach(index => {
+      adapter.load({ page: index }).subscribe();
+      httpMock.expectOne(usersRequest(index)).flush(page(index));
+    });
+
+    // Reading page 0 makes page 1 the least recently used
+    adapter.load({ page: 0 }).subscribe();
+    adapter.load({ page: 2 }).subscribe();
+    httpMock.expectOne(usersRequest(2)).flush(page(2));
+
+    adapter.load({ page: 0 }).subscribe();
+    adapter.load({ page: 1 }).subscribe();
+    httpMock.expectOne(usersRequest(1)).flush(page(1));
+  });
+
+  it('reads persisted pages from the cache store before the first load', fakeAsync(() => {
+    const entries = new Map<string, RemoteCacheEntry>();
+    const store: RemoteCacheStore = {
+      getAll: () => Promise.resolve([...entries.values()]),
+      put: entry => Promise.resolve(void entries.set(entry.key, entry)),
+      delete: key => Promise.resolve(void entries.delete(key)),
+      clear: () => Promise.resolve(entries.clear())
+    };
+
+    const first = createAdapter({ cacheStore: store });
+    first.load({ page: 0 }).subscribe();
+    flushMicrotasks();
+    httpMock.expectOne(usersRequest(0)).flush(page(1));
+    flushMicrotasks();
+    expect(entries.size).toBe(1);
+
+    const second = createAdapter({ cacheStore: store });
+    let result: DataSourceResult<any> | undefined;
+    second.load({ page: 0 }).subscribe(r => result = r);
+    flushMicrotasks();
+
+    httpMock.expectNone('/api/users');
+    expect(result).toEqual(page(1));
+  }));
+});
+
+// Loads the rows as they are; mutation requests stay open until a test answers them
+class FakeMutationAdapter implements DataSourceAdapter<any> {
+  requests: { type: 'create' | 'update' | 'delete'; data: any; response: Subject<any> }[] = [];
+
+  constructor(public rows: any[] = []) {}
+
+  load(): Observable<DataSourceResult<any>> {
+    return of({ data: this.rows, totalCount: this.rows.length });
+  }
+
+  create(item: any) {
+    return this.request('create', item);
+  }
+
+  update(item: any) {
+    return this.request('update', item);
+  }
+
+  delete(id: string | number): Observable<void> {
+    return this.request('delete', id);
+  }
+
+  private request(type: 'create' | 'update' | 'delete', data: any) {
+    const response = new Subject<any>();
+    this.requests.push({ type, data, response });
+    return response.asObservable();
+  }
+}
+
+describe('OptimisticDataSourceAdapter', () => {
+  let base: FakeMutationAdapter;
+  let adapter: OptimisticDataSourceAdapter;
+
+  function loadData() {
+    let result: DataSourceResult<any> | undefined;
+    adapter.load({}).subscribe(r => result = r);
+    return result!.data;
+  }
+
+  beforeEach(() => {
+    base = new FakeMutationAdapter([{ id: 1, name: 'a' }, { id: 2, name: 'b' }]);
+    adapter = new OptimisticDataSourceAdapter(base);
+    loadData();
+  });
+
+  it('shows a mutation in load results while its request is in flight', () => {
+    adapter.update!({ id: 1, name: 'changed' }).subscribe();
+    adapter.delete!(2).subscribe();
+
+    expect(loadData()).toEqual([{ id: 1, name: 'changed' }]);
+    expect(adapter.isPending(1)).toBe(true);
+
+    base.requests.forEach(request => {
+      request.response.next(request.type === 'delete' ? undefined : request.data);
+      request.response.complete();
+    });
+
+    expect(adapter.pending).toEqual([]);
+  });
+
+  it('rolls a failed update back and reports the row it replaced', () => {
+    const failures: MutationError[] = [];
+    let error: any;
+    adapter.mutationFailed$.subscribe(failure => failures.push(failure));
+
+    adapter.update!({ id: 1, name: 'changed' }).subscribe({ error: e => error = e });
+    base.requests[0].response.error(new Error('Version conflict'));
+
+    expect(error?.message).toBe('Version conflict');
+    expect(loadData()).toEqual([{ id: 1, name: 'a' }, { id: 2, name: 'b' }]);
+    expect(adapter.isPending(1)).toBe(false);
+    expect(failures).toEqual([jasmine.objectContaining({
+      type: 'update',
+      rowId: 1,
+      previous: { id: 1, name: 'a' },
+      data: { id: 1, name: 'changed' },
+      message: 'Version conflict'
+    })]);
+  });
+
+  it('drops the overlay of a cancelled request', () => {
+    const subscription = adapter.delete!(2).subscribe();
+    expect(loadData().length).toBe(1);
+
+    subscription.unsubscribe();
+
+    expect(loadData().length).toBe(2);
+    expect(adapter.pending).toEqual([]);
+  });
+});
+
+describe('OfflineDataSourceAdapter', () => {
+  let base: FakeMutationAdapter;
+  let adapter: OfflineDataSourceAdapter;
+
+  beforeEach(fakeAsync(() => {
+    base = new FakeMutationAdapter([{ id: 1, name: 'a' }]);
+    adapter = new OfflineDataSourceAdapter(base, { storage: new InMemoryMutationQueueStorage(), syncOnReconnect: false });
+    flushMicrotasks();
+    adapter.setOnline(false);
+  }));
+
+  afterEach(() => {
+    adapter.disconnect();
+  });
+
+  it('queues mutations made offline and shows a queued create under its temporary id', fakeAsync(() => {
+    let created: any;
+    adapter.create!({ name: 'new' }).subscribe(item => created = item);
+    adapter.update!({ id: 1, name: 'changed' }).subscribe();
+    flushMicrotasks();
+
+    expect(base.requests).toEqual([]);
+    expect(created).toEqual({ name: 'new', id: 'offline-1' });
+    expect(adapter.queue.map(mutation => [mutation.type, mutation.rowId])).toEqual([['create', 'offline-1'], ['update', 1]]);
+
+    let result: DataSourceResult<any> | undefined;
+    adapter.load({ page: 0 }).subscribe(r => result = r);
+    expect(result).toEqual({ data: [{ name: 'new', id: 'offline-1' }, { id: 1, name: 'changed' }], totalCount: 2 });
+  }));
+
+  it('sends later edits of a queued create with the id the server created', fakeAsync(() => {
+    const synced: any[] = [];
+    adapter.synced$.subscribe(({ mutation, result }) => synced.push([mutation.type, result]));
+
+    let created: any;
+    adapter.create!({ name: 'new' }).subscribe(item => created = item);
+    flushMicrotasks();
+    adapter.update!({ ...created, name: 'renamed' }).subscribe();
+    adapter.delete!(created.id).subscribe();
+    flushMicrotasks();
+
+    adapter.setOnline(true);
+    adapter.sync().subscribe();
+    flushMicrotasks();
+
+    expect(base.requests.map(request => request.type)).toEqual(['create']);
+    expect(base.requests[0].data).toEqual({ name: 'new' });
+    base.requests[0].response.next({ id: 42, name: 'new' });
+    base.requests[0].response.complete();
+    flushMicrotasks();
+
+    expect(base.requests[1].type).toBe('update');
+    expect(base.requests[1].data).toEqual({ id: 42, name: 'renamed' });
+    expect(adapter.queue.map(mutation => mutation.rowId)).toEqual([42, 42]);
+    base.requests[1].response.next(base.requests[1].data);
+    base.requests[1].response.complete();
+    flushMicrotasks();
+
+    expect(base.requests[2].type).toBe('delete');
+    expect(base.requests[2].data).toBe(42);
+    base.requests[2].response.next(undefined);
+    base.requests[2].response.complete();
+    flushMicrotasks();
+
+    expect(adapter.queue).toEqual([]);
+    expect(synced).toEqual([['create', { id: 42, name: 'new' }], ['update', { id: 42, name: 'renamed' }], ['delete', undefined]]);
+  }));
+});
@@ -1,5 +1,5 @@
 import { Injectable } from '@angular/core';
-import { Observable, BehaviorSubject, Subject, interval, of, throwError, merge } from 'rxjs';
+import { Observable, BehaviorSubject, Subject, EMPTY, interval, of, from, throwError, merge, concat, defer } from 'rxjs';
 import { 
   map, 
   catchError, 
@@ -9,196 +9,568 @@ import {
   distinctUntilChanged,
   switchMap,
   tap,
-  shareReplay
+  share,
+  shareReplay,
+  finalize,
+  filter
 } from 'rxjs/operators';
 import { HttpClient, HttpHeaders, HttpParams } from '@angular/common/http';
 import { 
+  AdvancedFilter,
   DataSourceAdapter, 
   DataSourceParams, 
   DataSourceResult, 
+  RemoteCacheEntry,
+  RemoteCacheStore,
   RemoteDataConfig,
+  RemoteRequestDialect,
+  RemoteResponseDialect,
   WebSocketConfig,
-  InfiniteScrollConfig 
+  InfiniteScrollConfig,
+  ODataConfig,
+  GraphQLConfig,
+  GraphQLCursor,
+  GraphQLMutation,
+  GraphQLPageInfo,
+  GraphQLVariableNames,
+  EventSourceConfig,
+  JsonPatchOperation,
+  MutationConflict,
+  MutationError,
+  MutationQueueStorage,
+  OfflineQueueConfig,
+  OptimisticMutation,
+  QueuedMutation
 } from '../interfaces/advanced-grid.interface';
+import { DefaultRemoteDialect } from './data-source-dialects.service';
+import { IndexedDBMutationQueueStorage, InMemoryMutationQueueStorage } from './mutation-queue-storage.service';
+import { matchesAdvancedFilters } from './smart-filtering.service';
 
 // ===== Remote HTTP Data Source =====
+// Cached pages are tagged 'row:<id>' for each of their rows, plus any cacheTags, so that
+// invalidateCache(tags) drops only the pages holding a given row or query.
 export class RemoteDataSourceAdapter<T = any> implements DataSourceAdapter<T> {
-  private cache = new Map<string, { data: DataSourceResult<T>; timestamp: number }>();
+  // Insertion order doubles as recency order for cacheMaxEntries
+  private cache = new Map<string, RemoteCacheEntry<T>>();
+  private inflight = new Map<string, Observable<DataSourceResult<T>>>();
+  private activeRequests = 0;
+  // Bumped on invalidation so that responses to earlier requests are not cached
+  private cacheGeneration = 0;
+  private cacheHydration: Promise<void> | null = null;
   private loadingSubject = new BehaviorSubject<boolean>(false);
+  private requestDialect: RemoteRequestDialect;
+  private responseDialect: RemoteResponseDialect<T>;
   
   loading$ = this.loadingSubject.asObservable();
 
   constructor(
-    private http: HttpClient,
-    private config: RemoteDataConfig
-  ) {}
+    protected http: HttpClient,
+    protected config: RemoteDataConfig
+  ) {
+    const dialect = config.dialect ?? new DefaultRemoteDialect<T>();
+    this.requestDialect = config.requestDialect ?? dialect;
+    this.responseDialect = config.responseDialect ?? dialect;
+
+    if (config.cache && config.cacheStore) {
+      this.cacheHydration = this.hydrateCache(config.cacheStore);
+    }
+  }
 
   load(params: DataSourceParams): Observable<DataSourceResult<T>> {
-    const cacheKey = this.generateCacheKey(params);
-    
-    // Check cache first
-    if (this.config.cache && this.isCacheValid(cacheKey)) {
-      const cached = this.cache.get(cacheKey)!;
-      return of(cached.data);
+    // Persisted pages are read before the first load
+    if (this.cacheHydration) {
+      return from(this.cacheHydration).pipe(switchMap(() => this.load(params)));
     }
 
-    // Build request
-    const url = this.buildUrl(params);
-    const headers = new HttpHeaders(this.config.headers || {});
-    const httpOptions = { headers };
+    const cacheKey = this.generateCacheKey(params);
+    const cached = this.config.cache ? this.getCacheEntry(cacheKey) : undefined;
 
-    this.loadingSubject.next(true);
+    if (cached && this.isCacheValid(cached)) {
+      return of(cached.data);
+    }
 
-    let request: Observable<any>;
-    
-    if (this.config.method === 'POST') {
-      request = this.http.post(url, this.buildBody(params), httpOptions);
-    } else {
-      const httpParams = this.buildParams(params);
-      request = this.http.get(url, { ...httpOptions, params: httpParams });
+    if (cached && this.config.staleWhileRevalidate) {
+      // The refetch still updates the cache if the caller stops after the stale page
+      const request = this.request(params, cacheKey);
+      request.subscribe({ error: () => {} });
+      return concat(of(cached.data), request.pipe(catchError(() => EMPTY)));
     }
 
-    return request.pipe(
-      timeout(this.config.timeout || 30000),
-      retry(this.config.retryAttempts || 0),
-      map(response => this.transformResponse(response)),
-      tap(result => {
-        // Cache the result
-        if (this.config.cache) {
-          this.cache.set(cacheKey, {
-            data: result,
-            timestamp: Date.now()
-          });
-        }
-        this.loadingSubject.next(false);
-      }),
-      catchError(error => {
-        this.loadingSubject.next(false);
-        return throwError(() => error);
-      })
-    );
+    return this.request(params, cacheKey);
   }
 
   update?(item: T): Observable<T> {
-    const url = `${this.config.endpoint}/${this.getItemId(item)}`;
+    const url = this.buildItemUrl(this.getItemId(item));
     const headers = new HttpHeaders(this.config.headers || {});
     
     return this.http.put<T>(url, item, { headers }).pipe(
-      tap(() => this.invalidateCache()),
+      tap(updated => this.updateCachedItem(updated || item)),
       catchError(error => throwError(() => error))
     );
   }
 
   delete?(id: string | number): Observable<void> {
-    const url = `${this.config.endpoint}/${id}`;
+    const url = this.buildItemUrl(id);
     const headers = new HttpHeaders(this.config.headers || {});
     
     return this.http.delete<void>(url, { headers }).pipe(
-      tap(() => this.invalidateCache()),
+      tap(() => this.removeCachedItem(id)),
       catchError(error => throwError(() => error))
     );
   }
 
   create?(item: Partial<T>): Observable<T> {
-    const url = this.config.endpoint;
+    const url = this.buildUrl({});
     const headers = new HttpHeaders(this.config.headers || {});
     
     return this.http.post<T>(url, item, { headers }).pipe(
+      // Where a new row lands depends on server-side sort and filters
       tap(() => this.invalidateCache()),
       catchError(error => throwError(() => error))
     );
   }
 
   clearCache() {
+    this.cacheGeneration++;
     this.cache.clear();
+    this.inflight.clear();
+    this.persist(store => store.clear());
   }
 
-  invalidateCache() {
-    this.cache.clear();
+  // Without tags every cached page is dropped; with tags only the pages carrying one of them
+  invalidateCache(tags?: string[]) {
+    if (!tags) {
+      this.clearCache();
+      return;
+    }
+
+    this.cacheGeneration++;
+    this.inflight.clear();
+    this.cache.forEach((entry, cacheKey) => {
+      if (entry.tags.some(tag => tags.includes(tag))) {
+        this.deleteCacheEntry(cacheKey);
+      }
+    });
+  }
+
+  // Drops the cached pages that hold the row
+  invalidateRow(id: string | number) {
+    this.invalidateCache([rowCacheTag(id)]);
+  }
+
+  // Replaces the item in every cached page that holds it
+  updateCachedItem(item: T) {
+    const id = this.getItemId(item);
+    this.cache.forEach(entry => {
+      const index = entry.data.data.findIndex(cached => this.getItemId(cached) === id);
+      if (index < 0) return;
+
+      const data = [...entry.data.data];
+      data[index] = item;
+      this.patchCacheEntry(entry, { ...entry.data, data });
+    });
+  }
+
+  // Removes the item from the page that holds it. Earlier pages of the same query only
+  // lose one from totalCount; later pages have shifted by a row, so they are dropped.
+  removeCachedItem(id: string | number) {
+    const removed = new Map<string, number>();
+
+    this.cache.forEach(entry => {
+      if (!entry.data.data.some(item => this.getItemId(item) === id)) return;
+
+      const queryKey = this.generateQueryKey(entry.params);
+      const page = entry.params.page ?? 0;
+      removed.set(queryKey, Math.min(page, removed.get(queryKey) ?? page));
+    });
+
+    this.cache.forEach((entry, cacheKey) => {
+      const removedPage = removed.get(this.generateQueryKey(entry.params));
+      if (removedPage === undefined) return;
+
+      const page = entry.params.page ?? 0;
+      if (page > removedPage) {
+        this.deleteCacheEntry(cacheKey);
+        return;
+      }
+
+      this.patchCacheEntry(entry, {
+        ...entry.data,
+        data: entry.data.data.filter(item => this.getItemId(item) !== id),
+        totalCount: Math.max(0, entry.data.totalCount - 1)
+      });
+    });
+  }
+
+  // Fills {name} placeholders in the endpoint from pathParams
+  protected buildUrl(params: DataSourceParams): string {
+    return this.interpolate(this.config.endpoint, this.getPathParams(params));
   }
 
-  private buildUrl(params: DataSourceParams): string {
-    return this.config.endpoint;
+  protected buildItemUrl(id: string | number): string {
+    const pathParams = this.getPathParams({});
+    return this.config.itemEndpoint
+      ? this.interpolate(this.config.itemEndpoint, { ...pathParams, id })
+      : `${this.interpolate(this.config.endpoint, pathParams)}/${encodeURIComponent(String(id))}`;
   }
 
-  private buildParams(params: DataSourceParams): HttpParams {
+  protected buildParams(params: DataSourceParams): HttpParams {
     let httpParams = new HttpParams();
 
-    if (params.page !== undefined) {
-      httpParams = httpParams.set('page', params.page.toString());
+    Object.entries(this.requestDialect.buildParams(params)).forEach(([key, value]) => {
+      (Array.isArray(value) ? value : [value]).forEach(item => {
+        httpParams = httpParams.append(key, item);
+      });
+    });
+
+    return httpParams;
+  }
+
+  protected buildBody(params: DataSourceParams): any {
+    return this.requestDialect.buildBody
+      ? this.requestDialect.buildBody(params)
+      : new DefaultRemoteDialect<T>().buildBody(params);
+  }
+
+  protected transformResponse(response: any, params: DataSourceParams = {}): DataSourceResult<T> {
+    return this.responseDialect.parseResponse(response, params);
+  }
+
+  protected getPathParams(params: DataSourceParams): Record<string, string | number> {
+    const pathParams = this.config.pathParams;
+    return typeof pathParams === 'function' ? pathParams(params) : pathParams ?? {};
+  }
+
+  protected interpolate(template: string, values: Record<string, string | number>): string {
+    return template.replace(/\{(\w+)\}/g, (placeholder, name) =>
+      values[name] !== undefined ? encodeURIComponent(String(values[name])) : placeholder
+    );
+  }
+
+  // Concurrent loads of the same params share one HTTP request
+  private request(params: DataSourceParams, cacheKey: string): Observable<DataSourceResult<T>> {
+    const pending = this.inflight.get(cacheKey);
+    if (pending) return pending;
+
+    let generation = this.cacheGeneration;
+    const request: Observable<DataSourceResult<T>> = defer(() => {
+      generation = this.cacheGeneration;
+      this.inflight.set(cacheKey, request);
+      this.activeRequests++;
+      this.loadingSubject.next(true);
+      // Deferred so a dialect error (UnsupportedFilterError) still runs the finalize below
+      return defer(() => this.send(params)).pipe(
+        finalize(() => {
+          this.activeRequests--;
+          this.loadingSubject.next(this.activeRequests > 0);
+        })
+      );
+    }).pipe(
+      timeout(this.config.timeout || 30000),
+      retry(this.config.retryAttempts || 0),
+      map(response => this.transformResponse(response, params)),
+      tap(result => {
+        if (this.config.cache && generation === this.cacheGeneration) {
+          this.setCacheEntry(cacheKey, params, result);
+        }
+      }),
+      finalize(() => {
+        if (this.inflight.get(cacheKey) === request) {
+          this.inflight.delete(cacheKey);
+        }
+      }),
+      share()
+    );
+
+    return request;
+  }
+
+  private send(params: DataSourceParams): Observable<any> {
+    const url = this.buildUrl(params);
+    const headers = new HttpHeaders(this.config.headers || {});
+    const httpOptions = { headers };
+
+    return this.config.method === 'POST'
+      ? this.http.post(url, this.buildBody(params), httpOptions)
+      : this.http.get(url, { ...httpOptions, params: this.buildParams(params) });
+  }
+
+  private hydrateCache(store: RemoteCacheStore<T>): Promise<void> {
+    const generation = this.cacheGeneration;
+
+    return store.getAll()
+      .then(entries => {
+        if (generation !== this.cacheGeneration) return;
+
+        // Oldest first, so the least recently fetched pages are evicted first
+        entries
+          .sort((a, b) => a.timestamp - b.timestamp)
+          .forEach(entry => {
+            if (!this.cache.has(entry.key)) {
+              this.cache.set(entry.key, entry);
+            }
+          });
+        this.evictLeastRecentlyUsed();
+      })
+      // Without the persisted pages the cache starts empty
+      .catch(() => undefined)
+      .then(() => {
+        this.cacheHydration = null;
+      });
+  }
+
+  // Reading a page makes it the most recently used
+  private getCacheEntry(cacheKey: string): RemoteCacheEntry<T> | undefined {
+    const entry = this.cache.get(cacheKey);
+    if (entry) {
+      this.cache.delete(cacheKey);
+      this.cache.set(cacheKey, entry);
+    }
+    return entry;
+  }
+
+  private setCacheEntry(cacheKey: string, params: DataSourceParams, data: DataSourceResult<T>) {
+    const entry: RemoteCacheEntry<T> = {
+      key: cacheKey,
+      params,
+      data,
+      tags: this.getCacheTags(params, data),
+      timestamp: Date.now()
+    };
+
+    this.cache.delete(cacheKey);
+    this.cache.set(cacheKey, entry);
+    this.persist(store => store.put(entry));
+    this.evictLeastRecentlyUsed();
+  }
+
+  private patchCacheEntry(entry: RemoteCacheEntry<T>, data: DataSourceResult<T>) {
+    entry.data = data;
+    entry.tags = this.getCacheTags(entry.params, data);
+    this.persist(store => store.put(entry));
+  }
+
+  private deleteCacheEntry(cacheKey: string) {
+    this.cache.delete(cacheKey);
+    this.persist(store => store.delete(cacheKey));
+  }
+
+  private evictLeastRecentlyUsed() {
+    const maxEntries = this.config.cacheMaxEntries;
+    if (!maxEntries) return;
+
+    for (const cacheKey of this.cache.keys()) {
+      if (this.cache.size <= maxEntries) break;
+      this.deleteCacheEntry(cacheKey);
+    }
+  }
+
+  private getCacheTags(params: DataSourceParams, data: DataSourceResult<T>): string[] {
+    const tags = data.data
+      .map(item => this.getItemId(item))
+      .filter(id => id !== '')
+      .map(rowCacheTag);
+    return this.config.cacheTags ? [...tags, ...this.config.cacheTags(params, data)] : tags;
+  }
+
+  // Persistence is best effort; the in-memory cache stays authoritative
+  private persist(write: (store: RemoteCacheStore<T>) => Promise<void>) {
+    if (this.config.cacheStore) {
+      write(this.config.cacheStore).catch(() => undefined);
+    }
+  }
+
+  // Key order does not matter, so equal params share a cache entry and an in-flight request
+  private generateCacheKey(params: DataSourceParams): string {
+    return JSON.stringify(sortJsonKeys(params));
+  }
+
+  // Identifies the pages of one sorted/filtered result set
+  private generateQueryKey(params: DataSourceParams): string {
+    const { page, ...query } = params;
+    return JSON.stringify(sortJsonKeys(query));
+  }
+
+  private isCacheValid(entry: RemoteCacheEntry<T>): boolean {
+    const ttl = this.config.cacheTTL || 5 * 60 * 1000; // 5 minutes default
+    return (Date.now() - entry.timestamp) < ttl;
+  }
+
+  protected getItemId(item: T): string | number {
+    return getItemId(item);
+  }
+}
+
+// ===== OData v4 Data Source =====
+// Pages are 0-based; caching, retry and timeout come from RemoteDataSourceAdapter.
+export class ODataDataSourceAdapter<T = any> extends RemoteDataSourceAdapter<T> {
+  private nextLinkSubject = new BehaviorSubject<string | null>(null);
+
+  nextLink$ = this.nextLinkSubject.asObservable();
+
+  constructor(
+    http: HttpClient,
+    protected override config: ODataConfig
+  ) {
+    super(http, config);
+  }
+
+  get nextLink(): string | null {
+    return this.nextLinkSubject.value;
+  }
+
+  // Follows the server-driven @odata.nextLink of the last response
+  loadNext(): Observable<DataSourceResult<T>> {
+    const nextLink = this.nextLinkSubject.value;
+    if (!nextLink) {
+      return throwError(() => new Error('No @odata.nextLink to follow'));
+    }
+
+    const headers = new HttpHeaders(this.config.headers || {});
+    return this.http.get(nextLink, { headers }).pipe(
+      timeout(this.config.timeout || 30000),
+      retry(this.config.retryAttempts || 0),
+      map(response => this.transformResponse(response))
+    );
+  }
+
+  buildFilter(filters: AdvancedFilter[]): string | null {
+    const expressions = (conditions: AdvancedFilter[]) => conditions
+      .map(filter => this.buildFilterExpression(filter))
+      .filter((expression): expression is string => !!expression);
+
+    // Same semantics as SmartFilteringService: every 'and' filter, plus any 'or' filter
+    const andExpressions = expressions(filters.filter(f => !f.condition || f.condition === 'and'));
+    const orExpressions = expressions(filters.filter(f => f.condition === 'or'));
+
+    if (orExpressions.length > 0) {
+      andExpressions.push(orExpressions.length === 1 ? orExpressions[0] : `(${orExpressions.join(' or ')})`);
     }
+    return andExpressions.length > 0 ? andExpressions.join(' and ') : null;
+  }
+
+  // Entities are addressed by key, e.g. Orders(42); an itemEndpoint's {id} is filled with the key literal
+  protected override buildItemUrl(id: string | number): string {
+    const pathParams = this.getPathParams({});
+    const key = this.formatLiteral(id);
+    return this.config.itemEndpoint
+      ? this.interpolate(this.config.itemEndpoint, { ...pathParams, id: key })
+      : `${this.interpolate(this.config.endpoint, pathParams)}(${key})`;
+  }
+
+  protected override buildParams(params: DataSourceParams): HttpParams {
+    let httpParams = new HttpParams().set('$count', 'true');
+
     if (params.pageSize !== undefined) {
-      httpParams = httpParams.set('pageSize', params.pageSize.toString());
+      httpParams = httpParams.set('$top', params.pageSize.toString());
+      if (params.page) {
+        httpParams = httpParams.set('$skip', (params.page * params.pageSize).toString());
+      }
     }
     if (params.sort && params.sort.length > 0) {
-      httpParams = httpParams.set('sort', JSON.stringify(params.sort));
+      const orderBy = params.sort.map(sort => `${this.getField(sort.field)} ${sort.direction}`);
+      httpParams = httpParams.set('$orderby', orderBy.join(','));
     }
     if (params.filters && params.filters.length > 0) {
-      httpParams = httpParams.set('filters', JSON.stringify(params.filters));
+      const filter = this.buildFilter(params.filters);
+      if (filter) {
+        httpParams = httpParams.set('$filter', filter);
+      }
     }
     if (params.search) {
-      httpParams = httpParams.set('search', params.search);
+      httpParams = httpParams.set('$search', this.formatSearch(params.search));
     }
     if (params.columns && params.columns.length > 0) {
-      httpParams = httpParams.set('columns', params.columns.join(','));
+      httpParams = httpParams.set('$select', params.columns.map(column => this.getField(column)).join(','));
     }
 
     return httpParams;
   }
 
-  private buildBody(params: DataSourceParams): any {
+  protected override transformResponse(response: any): DataSourceResult<T> {
+    const data: T[] = response?.value ?? [];
+    this.nextLinkSubject.next(response?.['@odata.nextLink'] ?? null);
+
     return {
-      page: params.page,
-      pageSize: params.pageSize,
-      sort: params.sort,
-      filters: params.filters,
-      search: params.search,
-      columns: params.columns
+      data,
+      totalCount: response?.['@odata.count'] ?? data.length
     };
   }
 
-  private transformResponse(response: any): DataSourceResult<T> {
-    // Adapt response structure - customize based on your API
-    if (response.data && response.totalCount !== undefined) {
-      return response as DataSourceResult<T>;
+  private buildFilterExpression(filter: AdvancedFilter): string | null {
+    const field = this.getField(filter.columnId);
+    const insensitive = !filter.caseSensitive && typeof filter.value === 'string';
+    const target = insensitive ? `tolower(${field})` : field;
+    const text = (value: any) => this.formatLiteral(insensitive ? String(value).toLowerCase() : value);
+    const values: any[] = Array.isArray(filter.value) ? filter.value : [filter.value];
+    const isV401 = this.config.version === '4.01';
+
+    switch (filter.operator) {
+      case 'equals':
+        return `${target} eq ${text(filter.value)}`;
+      case 'contains':
+        return `contains(${target},${text(filter.value)})`;
+      case 'startsWith':
+        return `startswith(${target},${text(filter.value)})`;
+      case 'endsWith':
+        return `endswith(${target},${text(filter.value)})`;
+      case 'greaterThan':
+        return `${field} gt ${this.formatLiteral(filter.value)}`;
+      case 'lessThan':
+        return `${field} lt ${this.formatLiteral(filter.value)}`;
+      case 'between':
+        return `(${field} ge ${this.formatLiteral(filter.value)} and ${field} le ${this.formatLiteral(filter.value2)})`;
+      case 'in':
+        if (values.length === 0) return 'false';
+        return isV401
+          ? `${field} in (${values.map(v => this.formatLiteral(v)).join(',')})`
+          : `(${values.map(v => `${field} eq ${this.formatLiteral(v)}`).join(' or ')})`;
+      case 'notIn':
+        if (values.length === 0) return null;
+        return isV401
+          ? `not (${field} in (${values.map(v => this.formatLiteral(v)).join(',')}))`
+          : `(${values.map(v => `${field} ne ${this.formatLiteral(v)}`).join(' and ')})`;
+      case 'isEmpty':
+        return this.isStringField(filter.columnId) ? `(${field} eq null or ${field} eq '')` : `${field} eq null`;
+      case 'isNotEmpty':
+        return this.isStringField(filter.columnId) ? `(${field} ne null and ${field} ne '')` : `${field} ne null`;
+      case 'regex':
+        return isV401 ? `matchesPattern(${field},${this.formatLiteral(filter.value)})` : null;
+      case 'custom':
+        return this.config.customFilter ? this.config.customFilter(filter, field) : null;
+      default:
+        return null;
     }
-
-    // Handle different response formats
-    if (Array.isArray(response)) {
-      return {
-        data: response,
-        totalCount: response.length
-      };
-    }
-
-    // Default transformation
-    return {
-      data: response.items || response.data || [],
-      totalCount: response.total || response.totalCount || 0,
-      page: response.page,
-      pageSize: response.pageSize,
-      aggregations: response.aggregations
-    };
   }
 
-  private generateCacheKey(params: DataSourceParams): string {
-    return JSON.stringify(params);
+  private formatLiteral(value: any): string {
+    if (value === null || value === undefined) return 'null';
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (value instanceof Date) return value.toISOString();
+    return `'${String(value).replace(/'/g, "''")}'`;
   }
 
-  private isCacheValid(cacheKey: string): boolean {
-    const cached = this.cache.get(cacheKey);
-    if (!cached) return false;
+  // Multi-word terms are searched as a phrase
+  private formatSearch(search: string): string {
+    const term = search.trim();
+    return /\s/.test(term) ? `"${term.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"` : term;
+  }
 
-    const ttl = this.config.cacheTTL || 5 * 60 * 1000; // 5 minutes default
-    return (Date.now() - cached.timestamp) < ttl;
+  private getField(columnId: string): string {
+    return this.config.fieldMap?.[columnId] ?? columnId.replace(/\./g, '/');
   }
 
-  private getItemId(item: T): string | number {
-    return (item as any).id || (item as any)._id || '';
+  private isStringField(columnId: string): boolean {
+    return this.config.stringFields?.includes(columnId) ?? false;
   }
 }
 
 // ===== WebSocket Real-time Data Source =====
+// v1 streams the whole data set and applies params locally. v2 subscribes with the current params:
+//   client: subscribe { subscriptionId, params }, unsubscribe, update/create/delete { requestId }, ping
+//   server: snapshot { subscriptionId, seq, data, totalCount? }, update/create/delete/patch { subscriptionId, seq },
+//           ack { requestId, data? }, nack { requestId, error }, pong
+// A gap in seq resends subscribe and ignores deltas until the next snapshot.
 export class WebSocketDataSourceAdapter<T = any> implements DataSourceAdapter<T> {
   private ws: WebSocket | null = null;
   private dataSubject = new BehaviorSubject<T[]>([]);
@@ -206,6 +578,19 @@ export class WebSocketDataSourceAdapter<T = any> implements DataSourceAdapter<T>
   private messageQueue: any[] = [];
   private reconnectAttempts = 0;
   private reconnectTimer: any;
+  private heartbeatTimer: any;
+  private heartbeatTimeoutTimer: any;
+
+  // Protocol v2
+  private subscriptionId: string | null = null;
+  private subscriptionParams: DataSourceParams | null = null;
+  private subscriptionCounter = 0;
+  private lastSeq: number | null = null;
+  // Subscription whose snapshot dataSubject holds
+  private snapshotSubscriptionId: string | null = null;
+  private totalCount: number | null = null;
+  private requestCounter = 0;
+  private pendingAcks = new Map<string, { message: any; resolve: (message: any) => void; reject: (error: Error) => void }>();
 
   data$ = this.dataSubject.asObservable();
   connected$ = this.connectionSubject.asObservable();
@@ -215,6 +600,24 @@ export class WebSocketDataSourceAdapter<T = any> implements DataSourceAdapter<T>
   }
 
   load(params: DataSourceParams): Observable<DataSourceResult<T>> {
+    if (this.config.protocol === 'v2') {
+      if (JSON.stringify(params) !== JSON.stringify(this.subscriptionParams)) {
+        this.subscribe(params);
+      }
+
+      // The server sends the rows for these params; rows of an earlier subscription are held back
+      const subscriptionId = this.subscriptionId;
+      return this.data$.pipe(
+        filter(() => this.subscriptionId === subscriptionId && this.snapshotSubscriptionId === subscriptionId),
+        map(data => ({
+          data,
+          totalCount: this.totalCount ?? data.length,
+          page: params.page,
+          pageSize: params.pageSize
+        }))
+      );
+    }
+
     // Send parameters to WebSocket for filtering/sorting
     this.sendMessage({
       type: 'load',
@@ -222,14 +625,17 @@ export class WebSocketDataSourceAdapter<T = any> implements DataSourceAdapter<T>
     });
 
     return this.data$.pipe(
-      map(data => ({
-        data: this.applyParams(data, params),
-        totalCount: data.length
-      }))
+      map(data => applyLocalParams(data, params))
     );
   }
 
   update?(item: T): Observable<T> {
+    if (this.config.protocol === 'v2') {
+      return this.request({ type: 'update', data: item }).pipe(
+        map(ack => ack.data ?? item)
+      );
+    }
+
     return new Observable(observer => {
       this.sendMessage({
         type: 'update',
@@ -239,7 +645,7 @@ export class WebSocketDataSourceAdapter<T = any> implements DataSourceAdapter<T>
       // Listen for confirmation
       const messageHandler = (event: MessageEvent) => {
         const message = JSON.parse(event.data);
-        if (message.type === 'updated' && message.id === this.getItemId(item)) {
+        if (message.type === 'updated' && message.id === getItemId(item)) {
           observer.next(message.data);
           observer.complete();
           this.ws?.removeEventListener('message', messageHandler);
@@ -251,6 +657,12 @@ export class WebSocketDataSourceAdapter<T = any> implements DataSourceAdapter<T>
   }
 
   delete?(id: string | number): Observable<void> {
+    if (this.config.protocol === 'v2') {
+      return this.request({ type: 'delete', id }).pipe(
+        map(() => undefined)
+      );
+    }
+
     return new Observable(observer => {
       this.sendMessage({
         type: 'delete',
@@ -271,6 +683,12 @@ export class WebSocketDataSourceAdapter<T = any> implements DataSourceAdapter<T>
   }
 
   create?(item: Partial<T>): Observable<T> {
+    if (this.config.protocol === 'v2') {
+      return this.request({ type: 'create', data: item }).pipe(
+        map(ack => ack.data ?? item)
+      );
+    }
+
     return new Observable(observer => {
       this.sendMessage({
         type: 'create',
@@ -298,21 +716,32 @@ export class WebSocketDataSourceAdapter<T = any> implements DataSourceAdapter<T>
         console.log('WebSocket connected');
         this.connectionSubject.next(true);
         this.reconnectAttempts = 0;
+
+        if (this.config.protocol === 'v2') {
+          this.restoreSession();
+        }
         
         // Send queued messages
         while (this.messageQueue.length > 0) {
           const message = this.messageQueue.shift();
           this.ws?.send(JSON.stringify(message));
         }
+
+        this.startHeartbeat();
       };
 
       this.ws.onmessage = (event) => {
+        // Any message shows the connection is alive
+        clearTimeout(this.heartbeatTimeoutTimer);
+        this.heartbeatTimeoutTimer = null;
+
         const message = JSON.parse(event.data);
         this.handleMessage(message);
       };
 
       this.ws.onclose = () => {
         console.log('WebSocket disconnected');
+        this.stopHeartbeat();
         this.connectionSubject.next(false);
         this.scheduleReconnect();
       };
@@ -345,9 +774,60 @@ export class WebSocketDataSourceAdapter<T = any> implements DataSourceAdapter<T>
     }, interval);
   }
 
+  private startHeartbeat() {
+    this.stopHeartbeat();
+
+    const interval = this.config.heartbeatInterval ?? (this.config.protocol === 'v2' ? 30000 : 0);
+    if (!interval) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      this.sendMessage({ type: 'ping', timestamp: Date.now() });
+      if (!this.heartbeatTimeoutTimer) {
+        this.heartbeatTimeoutTimer = setTimeout(() => this.handleDeadSocket(), this.config.heartbeatTimeout || 10000);
+      }
+    }, interval);
+  }
+
+  private stopHeartbeat() {
+    clearInterval(this.heartbeatTimer);
+    clearTimeout(this.heartbeatTimeoutTimer);
+    this.heartbeatTimer = null;
+    this.heartbeatTimeoutTimer = null;
+  }
+
+  // A socket that stopped answering may not emit close for minutes, so drop it here
+  private handleDeadSocket() {
+    console.error('WebSocket heartbeat timed out');
+    this.stopHeartbeat();
+
+    if (this.ws) {
+      this.ws.onopen = this.ws.onmessage = this.ws.onclose = this.ws.onerror = null;
+      this.ws.close();
+      this.ws = null;
+    }
+    this.connectionSubject.next(false);
+    this.scheduleReconnect();
+  }
+
   private handleMessage(message: any) {
+    switch (message.type) {
+      case 'pong':
+        return;
+      case 'ack':
+        this.pendingAcks.get(message.requestId)?.resolve(message);
+        return;
+      case 'nack':
+        this.pendingAcks.get(message.requestId)?.reject(new Error(message.error || 'Mutation rejected'));
+        return;
+    }
+
+    if (this.config.protocol === 'v2' && !this.acceptSequence(message)) return;
+
     switch (message.type) {
       case 'data':
+      case 'snapshot':
+        this.snapshotSubscriptionId = this.subscriptionId;
+        this.totalCount = message.totalCount ?? null;
         this.dataSubject.next(message.data);
         break;
       case 'update':
@@ -359,7 +839,96 @@ export class WebSocketDataSourceAdapter<T = any> implements DataSourceAdapter<T>
       case 'create':
         this.addItem(message.data);
         break;
+      case 'patch':
+        this.patchItem(message.id, message.patch);
+        break;
+    }
+  }
+
+  // Drops messages of old subscriptions, duplicates and deltas received while waiting for a snapshot
+  private acceptSequence(message: any): boolean {
+    if (message.subscriptionId !== this.subscriptionId) return false;
+
+    if (message.type === 'snapshot' || message.type === 'data') {
+      this.lastSeq = message.seq ?? 0;
+      return true;
+    }
+
+    if (this.lastSeq === null) return false;
+    if (message.seq === undefined) return true;
+    if (message.seq <= this.lastSeq) return false;
+
+    if (message.seq > this.lastSeq + 1) {
+      this.resync();
+      return false;
+    }
+
+    this.lastSeq = message.seq;
+    return true;
+  }
+
+  private subscribe(params: DataSourceParams) {
+    if (this.subscriptionId) {
+      this.sendMessage({ type: 'unsubscribe', subscriptionId: this.subscriptionId });
     }
+
+    this.subscriptionId = `sub-${++this.subscriptionCounter}`;
+    this.subscriptionParams = params;
+    this.totalCount = null;
+    this.resync();
+  }
+
+  private resync() {
+    this.lastSeq = null;
+    this.sendMessage({
+      type: 'subscribe',
+      subscriptionId: this.subscriptionId,
+      params: this.subscriptionParams
+    });
+  }
+
+  // After a reconnect the server has forgotten the subscription; unacked mutations are resent
+  // with their original requestId so the server can ignore ones it already applied
+  private restoreSession() {
+    this.messageQueue = this.messageQueue.filter(message =>
+      message.type !== 'subscribe' && message.type !== 'unsubscribe' && message.requestId === undefined
+    );
+    if (this.subscriptionId) {
+      this.resync();
+    }
+    this.pendingAcks.forEach(pending => this.sendMessage(pending.message));
+  }
+
+  private request(message: any): Observable<any> {
+    return new Observable(observer => {
+      const requestId = `req-${++this.requestCounter}`;
+      const timeoutMs = this.config.ackTimeout || 30000;
+      const timer = setTimeout(() => {
+        this.pendingAcks.delete(requestId);
+        observer.error(new Error(`No ack for ${message.type} within ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      const settle = () => {
+        clearTimeout(timer);
+        this.pendingAcks.delete(requestId);
+      };
+
+      this.pendingAcks.set(requestId, {
+        message: { ...message, requestId },
+        resolve: ack => {
+          settle();
+          observer.next(ack);
+          observer.complete();
+        },
+        reject: error => {
+          settle();
+          observer.error(error);
+        }
+      });
+      this.sendMessage({ ...message, requestId });
+
+      return settle;
+    });
   }
 
   private sendMessage(message: any) {
@@ -373,7 +942,7 @@ export class WebSocketDataSourceAdapter<T = any> implements DataSourceAdapter<T>
   private updateItem(updatedItem: T) {
     const currentData = this.dataSubject.value;
     const index = currentData.findIndex(item => 
-      this.getItemId(item) === this.getItemId(updatedItem)
+      getItemId(item) === getItemId(updatedItem)
     );
     
     if (index >= 0) {
@@ -383,67 +952,260 @@ export class WebSocketDataSourceAdapter<T = any> implements DataSourceAdapter<T>
     }
   }
 
+  private patchItem(id: string | number, patch: JsonPatchOperation[]) {
+    const currentData = this.dataSubject.value;
+    const index = currentData.findIndex(item => getItemId(item) === id);
+    if (index < 0) return;
+
+    try {
+      const newData = [...currentData];
+      newData[index] = applyJsonPatch(currentData[index], patch);
+      this.dataSubject.next(newData);
+    } catch (error) {
+      // The row no longer matches what the server patched
+      console.error('Failed to apply JSON Patch:', error);
+      this.resync();
+    }
+  }
+
   private deleteItem(id: string | number) {
     const currentData = this.dataSubject.value;
-    const newData = currentData.filter(item => this.getItemId(item) !== id);
+    const newData = currentData.filter(item => getItemId(item) !== id);
+    if (this.totalCount !== null && newData.length < currentData.length) {
+      this.totalCount--;
+    }
     this.dataSubject.next(newData);
   }
 
   private addItem(newItem: T) {
     const currentData = this.dataSubject.value;
-    this.dataSubject.next([...currentData, newItem]);
-  }
-
-  private applyParams(data: T[], params: DataSourceParams): T[] {
-    let result = [...data];
-
-    // Apply search/filters (basic implementation)
-    if (params.search) {
-      const search = params.search.toLowerCase();
-      result = result.filter(item => 
-        JSON.stringify(item).toLowerCase().includes(search)
-      );
-    }
-
-    // Apply sorting
-    if (params.sort && params.sort.length > 0) {
-      const sortConfig = params.sort[0];
-      result.sort((a, b) => {
-        const aVal = (a as any)[sortConfig.field];
-        const bVal = (b as any)[sortConfig.field];
-        
-        if (aVal < bVal) return sortConfig.direction === 'asc' ? -1 : 1;
-        if (aVal > bVal) return sortConfig.direction === 'asc' ? 1 : -1;
-        return 0;
-      });
+    if (this.totalCount !== null) {
+      this.totalCount++;
     }
-
-    // Apply pagination
-    if (params.page !== undefined && params.pageSize !== undefined) {
-      const start = params.page * params.pageSize;
-      result = result.slice(start, start + params.pageSize);
-    }
-
-    return result;
-  }
-
-  private getItemId(item: T): string | number {
-    return (item as any).id || (item as any)._id || '';
+    this.dataSubject.next([...currentData, newItem]);
   }
 
   disconnect() {
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
     }
+    this.stopHeartbeat();
+    this.pendingAcks.forEach(pending => pending.reject(new Error('WebSocket disconnected')));
     this.ws?.close();
     this.ws = null;
   }
 }
 
-// ===== Infinite Scroll Data Source =====
-export class InfiniteScrollDataSourceAdapter<T = any> implements DataSourceAdapter<T> {
+// ===== Server-Sent Events Data Source =====
+// Read-only stream of the WebSocket message types (data, update, delete, create), sent as
+// JSON 'message' events with a type field or as named events without one.
+export class EventSourceDataSourceAdapter<T = any> implements DataSourceAdapter<T> {
+  private source: EventSource | null = null;
+  private dataSubject = new BehaviorSubject<T[]>([]);
+  private connectionSubject = new BehaviorSubject<boolean>(false);
+  private totalCount: number | null = null;
+  private lastId: string | null = null;
+  private query: string | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: any;
+
+  data$ = this.dataSubject.asObservable();
+  connected$ = this.connectionSubject.asObservable();
+
+  constructor(private config: EventSourceConfig) {}
+
+  get lastEventId(): string | null {
+    return this.lastId;
+  }
+
+  load(params: DataSourceParams): Observable<DataSourceResult<T>> {
+    if (this.config.params === 'query') {
+      // Other params mean another stream, so it starts from a fresh snapshot
+      let query: string;
+      try {
+        query = this.buildQuery(params);
+      } catch (error) {
+        return throwError(() => error);
+      }
+      if (query !== this.query || (!this.source && !this.reconnectTimer)) {
+        this.query = query;
+        this.lastId = null;
+        this.connect();
+      }
+
+      return this.data$.pipe(
+        map(data => ({
+          data,
+          totalCount: this.totalCount ?? data.length,
+          page: params.page,
+          pageSize: params.pageSize
+        }))
+      );
+    }
+
+    if (!this.source && !this.reconnectTimer) {
+      this.connect();
+    }
+
+    return this.data$.pipe(
+      map(data => applyLocalParams(data, params))
+    );
+  }
+
+  disconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.source?.close();
+    this.source = null;
+    this.connectionSubject.next(false);
+  }
+
+  private connect() {
+    this.disconnect();
+
+    const init: EventSourceInit = { withCredentials: !!this.config.withCredentials };
+    try {
+      const source = this.config.eventSourceFactory
+        ? this.config.eventSourceFactory(this.buildUrl(), init)
+        : new EventSource(this.buildUrl(), init);
+
+      source.onopen = () => {
+        this.connectionSubject.next(true);
+        this.reconnectAttempts = 0;
+      };
+
+      // While CONNECTING the browser retries by itself and sends Last-Event-ID;
+      // once CLOSED it has given up and the stream is reopened here
+      source.onerror = () => {
+        this.connectionSubject.next(false);
+        if (source.readyState === 2 && this.source === source) {
+          source.close();
+          this.source = null;
+          this.scheduleReconnect();
+        }
+      };
+
+      const listener = (event: Event) => this.handleEvent(event as MessageEvent);
+      ['message', ...(this.config.eventTypes ?? ['data', 'update', 'delete', 'create'])].forEach(type => {
+        source.addEventListener(type, listener);
+      });
+
+      this.source = source;
+    } catch (error) {
+      console.error('Failed to create EventSource:', error);
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.config.reconnect === false) return;
+
+    const maxAttempts = this.config.maxReconnectAttempts || 5;
+    if (this.reconnectAttempts >= maxAttempts) {
+      console.error('Max reconnection attempts reached');
+      return;
+    }
+
+    const interval = this.config.reconnectInterval || 5000;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnectAttempts++;
+      this.connect();
+    }, interval);
+  }
+
+  private handleEvent(event: MessageEvent) {
+    if (event.lastEventId) {
+      this.lastId = event.lastEventId;
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(event.data);
+    } catch (error) {
+      console.error('Invalid EventSource message:', error);
+      return;
+    }
+
+    this.handleMessage(event.type === 'message' ? payload : { ...payload, type: event.type });
+  }
+
+  private handleMessage(message: any) {
+    switch (message.type) {
+      case 'data':
+        this.totalCount = message.totalCount ?? null;
+        this.dataSubject.next(message.data);
+        break;
+      case 'update':
+        this.updateItem(message.data);
+        break;
+      case 'delete':
+        this.deleteItem(message.id);
+        break;
+      case 'create':
+        this.addItem(message.data);
+        break;
+    }
+  }
+
+  private updateItem(updatedItem: T) {
+    const currentData = this.dataSubject.value;
+    const index = currentData.findIndex(item =>
+      getItemId(item) === getItemId(updatedItem)
+    );
+
+    if (index >= 0) {
+      const newData = [...currentData];
+      newData[index] = updatedItem;
+      this.dataSubject.next(newData);
+    }
+  }
+
+  private deleteItem(id: string | number) {
+    const currentData = this.dataSubject.value;
+    const newData = currentData.filter(item => getItemId(item) !== id);
+    if (newData.length === currentData.length) return;
+
+    if (this.totalCount !== null) {
+      this.totalCount--;
+    }
+    this.dataSubject.next(newData);
+  }
+
+  private addItem(newItem: T) {
+    if (this.totalCount !== null) {
+      this.totalCount++;
+    }
+    this.dataSubject.next([...this.dataSubject.value, newItem]);
+  }
+
+  // The browser only sends Last-Event-ID on its own retries, so reopened streams carry it in the URL
+  private buildUrl(): string {
+    let query = this.query ?? '';
+    if (this.lastId) {
+      const resume = new HttpParams().set(this.config.lastEventIdParam ?? 'lastEventId', this.lastId).toString();
+      query = query ? `${query}&${resume}` : resume;
+    }
+
+    if (!query) return this.config.url;
+    return `${this.config.url}${this.config.url.includes('?') ? '&' : '?'}${query}`;
+  }
+
+  private buildQuery(params: DataSourceParams): string {
+    const dialect = this.config.requestDialect ?? new DefaultRemoteDialect<T>();
+    return new HttpParams({ fromObject: dialect.buildParams(params) }).toString();
+  }
+}
+
+// ===== Infinite Scroll Data Source =====
+export class InfiniteScrollDataSourceAdapter<T = any> implements DataSourceAdapter<T> {
   private allData: T[] = [];
   private loadedPages = new Set<number>();
+  // End cursor of each loaded page once the base adapter reports cursors
+  private pageCursors = new Map<number, string>();
+  private cursorMode = false;
   private loadingSubject = new BehaviorSubject<boolean>(false);
   private hasMoreSubject = new BehaviorSubject<boolean>(true);
 
@@ -472,13 +1234,20 @@ export class InfiniteScrollDataSourceAdapter<T = any> implements DataSourceAdapt
       });
     }
 
+    // Cursor pages can only follow the page before them
+    const after = page > 0 ? this.pageCursors.get(page - 1) : undefined;
+    if (this.cursorMode && page > 0 && !after) {
+      return throwError(() => new Error(`Page ${page} cannot be loaded before page ${page - 1} with cursor pagination`));
+    }
+
     // Load new page
     this.loadingSubject.next(true);
     
-    const loadParams = {
+    const loadParams: DataSourceParams = {
       ...params,
       page,
-      pageSize: this.config.pageSize
+      pageSize: this.config.pageSize,
+      ...(after ? { after } : {})
     };
 
     return this.baseAdapter.load(loadParams).pipe(
@@ -497,9 +1266,13 @@ export class InfiniteScrollDataSourceAdapter<T = any> implements DataSourceAdapt
         });
         
         this.loadedPages.add(page);
+        if (result.endCursor) {
+          this.cursorMode = true;
+          this.pageCursors.set(page, result.endCursor);
+        }
         
         // Check if there's more data
-        const hasMore = result.data.length === this.config.pageSize;
+        const hasMore = result.hasNext ?? result.data.length === this.config.pageSize;
         this.hasMoreSubject.next(hasMore);
         
         this.loadingSubject.next(false);
@@ -521,6 +1294,8 @@ export class InfiniteScrollDataSourceAdapter<T = any> implements DataSourceAdapt
     
     for (let i = 1; i <= pagesToPreload; i++) {
       const pageToLoad = currentPage + i;
+      // With cursors only the page right after the last loaded one can be requested
+      if (this.cursorMode && !this.pageCursors.has(pageToLoad - 1)) break;
       if (!this.loadedPages.has(pageToLoad) && this.hasMoreSubject.value) {
         this.load({ page: pageToLoad, pageSize: this.config.pageSize }).subscribe();
       }
@@ -530,6 +1305,8 @@ export class InfiniteScrollDataSourceAdapter<T = any> implements DataSourceAdapt
   reset() {
     this.allData = [];
     this.loadedPages.clear();
+    this.pageCursors.clear();
+    this.cursorMode = false;
     this.hasMoreSubject.next(true);
   }
 
@@ -538,7 +1315,7 @@ export class InfiniteScrollDataSourceAdapter<T = any> implements DataSourceAdapt
       tap(updatedItem => {
         // Update in cache
         const index = this.allData.findIndex(cached => 
-          this.getItemId(cached) === this.getItemId(updatedItem)
+          getItemId(cached) === getItemId(updatedItem)
         );
         if (index >= 0) {
           this.allData[index] = updatedItem;
@@ -552,7 +1329,7 @@ export class InfiniteScrollDataSourceAdapter<T = any> implements DataSourceAdapt
       tap(() => {
         // Remove from cache
         const index = this.allData.findIndex(item => 
-          this.getItemId(item) === id
+          getItemId(item) === id
         );
         if (index >= 0) {
           this.allData.splice(index, 1);
@@ -569,8 +1346,868 @@ export class InfiniteScrollDataSourceAdapter<T = any> implements DataSourceAdapt
       })
     );
   }
+}
+
+// ===== GraphQL Data Source =====
+export class GraphQLDataSourceAdapter<T = any> implements DataSourceAdapter<T> {
+  private loadingSubject = new BehaviorSubject<boolean>(false);
+  private pageInfoSubject = new BehaviorSubject<GraphQLPageInfo | null>(null);
+
+  // End cursor of each loaded page of a connection, for the current sort/filter/search
+  private pageCursors = new Map<number, string | null>();
+  private cursorKey = '';
+
+  loading$ = this.loadingSubject.asObservable();
+  pageInfo$ = this.pageInfoSubject.asObservable();
+
+  constructor(
+    private http: HttpClient,
+    private config: GraphQLConfig<T>
+  ) {}
+
+  load(params: DataSourceParams): Observable<DataSourceResult<T>> {
+    const page = params.page ?? 0;
+    const cursor: GraphQLCursor = { after: null };
+
+    if (this.config.connection) {
+      this.syncCursors(params);
+      // Cursor-mode grids pass the cursor themselves
+      if (params.after || params.before) {
+        cursor.after = params.after ?? null;
+        cursor.before = params.before ?? null;
+      } else if (page > 0) {
+        if (!this.pageCursors.has(page - 1)) {
+          return throwError(() => new Error(
+            `Cursor for page ${page} is unknown; connection pages must be loaded in order`
+          ));
+        }
+        cursor.after = this.pageCursors.get(page - 1)!;
+      }
+    }
+
+    const variables = this.config.mapVariables
+      ? this.config.mapVariables(params, cursor)
+      : this.buildVariables(params, cursor);
+
+    this.loadingSubject.next(true);
+
+    return this.execute(this.config.query, variables).pipe(
+      map(data => this.transformResponse(data, params, page)),
+      tap(() => this.loadingSubject.next(false)),
+      catchError(error => {
+        this.loadingSubject.next(false);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  update?(item: T): Observable<T> {
+    return this.mutate(this.config.mutations?.update, item, 'update', () => ({
+      id: getItemId(item),
+      input: item
+    }));
+  }
+
+  delete?(id: string | number): Observable<void> {
+    return this.mutate(this.config.mutations?.delete, id, 'delete', () => ({ id })).pipe(
+      map(() => undefined)
+    );
+  }
+
+  create?(item: Partial<T>): Observable<T> {
+    return this.mutate(this.config.mutations?.create, item, 'create', () => ({ input: item }));
+  }
+
+  // Forgets the cursors, so the next load starts from the first page
+  resetCursors() {
+    this.pageCursors.clear();
+    this.pageInfoSubject.next(null);
+  }
+
+  private execute(query: string, variables: Record<string, any>): Observable<any> {
+    const headers = new HttpHeaders(this.config.headers || {});
+
+    return this.http.post<any>(this.config.endpoint, { query, variables }, { headers }).pipe(
+      timeout(this.config.timeout || 30000),
+      retry(this.config.retryAttempts || 0),
+      map(response => {
+        // GraphQL reports failures in the body with a 200 status
+        if (response?.errors?.length) {
+          throw new Error(response.errors.map((error: any) => error.message).join('; '));
+        }
+        return response?.data;
+      })
+    );
+  }
+
+  private mutate<V>(
+    mutation: GraphQLMutation<V> | undefined,
+    value: V,
+    action: string,
+    defaultVariables: () => Record<string, any>
+  ): Observable<any> {
+    if (!mutation) {
+      return throwError(() => new Error(`GraphQL ${action} mutation is not configured`));
+    }
+
+    const variables = mutation.variables ? mutation.variables(value) : defaultVariables();
+
+    return this.execute(mutation.mutation, variables).pipe(
+      map(data => mutation.resultPath
+        ? this.getPath(data, mutation.resultPath)
+        : data?.[Object.keys(data ?? {})[0]]),
+      // Cursors depend on the rows before them, which a mutation may have changed
+      tap(() => this.pageCursors.clear())
+    );
+  }
+
+  private buildVariables(params: DataSourceParams, cursor: GraphQLCursor): Record<string, any> {
+    const names: GraphQLVariableNames = {
+      page: 'page',
+      pageSize: 'pageSize',
+      offset: null,
+      first: 'first',
+      after: 'after',
+      last: 'last',
+      before: 'before',
+      sort: 'sort',
+      filters: 'filter',
+      search: 'search',
+      columns: null,
+      ...this.config.variableNames
+    };
+    const variables: Record<string, any> = {};
+    const set = (name: string | null | undefined, value: any) => {
+      if (name && value !== undefined) variables[name] = value;
+    };
+
+    if (this.config.connection && cursor.before) {
+      set(names.last, params.pageSize);
+      set(names.before, cursor.before);
+    } else if (this.config.connection) {
+      set(names.first, params.pageSize);
+      set(names.after, cursor.after ?? undefined);
+    } else {
+      set(names.page, params.page);
+      set(names.pageSize, params.pageSize);
+      if (params.page !== undefined && params.pageSize !== undefined) {
+        set(names.offset, params.page * params.pageSize);
+      }
+    }
+
+    if (params.sort && params.sort.length > 0) {
+      set(names.sort, params.sort);
+    }
+    if (params.filters && params.filters.length > 0) {
+      set(names.filters, params.filters);
+    }
+    if (params.search) {
+      set(names.search, params.search);
+    }
+    if (params.columns && params.columns.length > 0) {
+      set(names.columns, params.columns);
+    }
+
+    return variables;
+  }
+
+  private transformResponse(data: any, params: DataSourceParams, page: number): DataSourceResult<T> {
+    const result = this.getPath(data, this.config.dataPath);
+
+    if (this.config.connection) {
+      const edges: any[] = result?.edges ?? [];
+      const items = edges.map(edge => edge.node as T);
+      const pageInfo: GraphQLPageInfo = result?.pageInfo ?? { hasNextPage: false };
+      const startCursor = pageInfo.startCursor ?? edges[0]?.cursor ?? null;
+      const endCursor = pageInfo.endCursor ?? edges[edges.length - 1]?.cursor ?? null;
+      const cursorMode = !!(params.after || params.before);
+
+      if (!cursorMode) {
+        this.pageCursors.set(page, endCursor);
+      }
+      this.pageInfoSubject.next(pageInfo);
+
+      // Without a totalCount field, report one row beyond what is known while more pages exist
+      const loadedBefore = cursorMode ? 0 : page * (params.pageSize ?? items.length);
+      return {
+        data: items,
+        totalCount: result?.totalCount ?? loadedBefore + items.length + (pageInfo.hasNextPage ? 1 : 0),
+        page,
+        pageSize: params.pageSize,
+        startCursor,
+        endCursor,
+        // Relay only requires the flag for the paging direction; rows lie beyond the cursor we came from
+        hasNext: params.before ? true : pageInfo.hasNextPage,
+        hasPrevious: params.after ? true : pageInfo.hasPreviousPage ?? page > 0
+      };
+    }
+
+    const items: T[] = Array.isArray(result) ? result : result?.items ?? result?.nodes ?? [];
+    const totalCount = this.config.totalCountPath
+      ? this.getPath(data, this.config.totalCountPath)
+      : result?.totalCount;
+
+    return {
+      data: items,
+      totalCount: totalCount ?? items.length,
+      page: params.page,
+      pageSize: params.pageSize
+    };
+  }
+
+  private syncCursors(params: DataSourceParams) {
+    const { page, pageSize, ...query } = params;
+    const key = JSON.stringify({ ...query, pageSize });
+    if (key !== this.cursorKey) {
+      this.cursorKey = key;
+      this.resetCursors();
+    }
+  }
+
+  private getPath(source: any, path: string): any {
+    return path.split('.').reduce((value, key) => value?.[key], source);
+  }
+}
+
+// ===== Optimistic Mutations =====
+// Wraps any adapter so mutations show up in load results while their requests are in flight.
+// A failed request drops the overlay and reports the row it replaced on mutationFailed$.
+export class OptimisticDataSourceAdapter<T = any> implements DataSourceAdapter<T> {
+  private knownItems = new Map<string | number, T>();
+  private pendingSubject = new BehaviorSubject<OptimisticMutation<T>[]>([]);
+  private appliedSubject = new Subject<OptimisticMutation<T>>();
+  private confirmedSubject = new Subject<OptimisticMutation<T>>();
+  private failedSubject = new Subject<MutationError<T>>();
+  private mutationCounter = 0;
+
+  pending$ = this.pendingSubject.asObservable();
+  mutationApplied$ = this.appliedSubject.asObservable();
+  mutationConfirmed$ = this.confirmedSubject.asObservable();
+  mutationFailed$ = this.failedSubject.asObservable();
+
+  constructor(private baseAdapter: DataSourceAdapter<T>) {}
+
+  get pending(): OptimisticMutation<T>[] {
+    return this.pendingSubject.value;
+  }
+
+  isPending(id: string | number): boolean {
+    return this.pendingSubject.value.some(mutation => mutation.rowId === id);
+  }
+
+  load(params: DataSourceParams): Observable<DataSourceResult<T>> {
+    return this.baseAdapter.load(params).pipe(
+      tap(result => result.data.forEach(item => this.knownItems.set(getItemId(item), item))),
+      map(result => applyMutations(result, this.pendingSubject.value, params))
+    );
+  }
+
+  update?(item: T): Observable<T> {
+    if (!this.baseAdapter.update) {
+      return throwError(() => new Error('Data source does not support update'));
+    }
+
+    const rowId = getItemId(item);
+    return this.mutate(
+      { type: 'update', rowId, previous: this.knownItems.get(rowId) ?? null, data: item },
+      this.baseAdapter.update(item)
+    );
+  }
+
+  delete?(id: string | number): Observable<void> {
+    if (!this.baseAdapter.delete) {
+      return throwError(() => new Error('Data source does not support delete'));
+    }
+
+    return this.mutate(
+      { type: 'delete', rowId: id, previous: this.knownItems.get(id) ?? null, data: null },
+      this.baseAdapter.delete(id)
+    );
+  }
+
+  create?(item: Partial<T>): Observable<T> {
+    if (!this.baseAdapter.create) {
+      return throwError(() => new Error('Data source does not support create'));
+    }
+
+    return this.mutate(
+      { type: 'create', rowId: getItemId(item), previous: null, data: item },
+      this.baseAdapter.create(item)
+    );
+  }
+
+  // The mutation is applied on subscribe and settled when the request completes, fails or is cancelled
+  private mutate<R>(
+    change: Omit<OptimisticMutation<T>, 'id'>,
+    request: Observable<R>
+  ): Observable<R> {
+    return defer(() => {
+      const mutation: OptimisticMutation<T> = { ...change, id: ++this.mutationCounter };
+      this.pendingSubject.next([...this.pendingSubject.value, mutation]);
+      this.appliedSubject.next(mutation);
+
+      return request.pipe(
+        tap(result => {
+          if (mutation.type === 'delete') {
+            this.knownItems.delete(mutation.rowId);
+          } else if (result) {
+            this.knownItems.set(getItemId(result), result as T);
+          }
+          this.confirmedSubject.next(mutation);
+        }),
+        catchError(error => {
+          this.settle(mutation);
+          this.failedSubject.next({
+            type: mutation.type,
+            rowId: mutation.rowId,
+            previous: mutation.previous,
+            data: mutation.data,
+            error,
+            message: getErrorMessage(error)
+          });
+          return throwError(() => error);
+        }),
+        finalize(() => this.settle(mutation))
+      );
+    });
+  }
+
+  private settle(mutation: OptimisticMutation<T>) {
+    const pending = this.pendingSubject.value;
+    if (pending.includes(mutation)) {
+      this.pendingSubject.next(pending.filter(m => m !== mutation));
+    }
+  }
+}
+
+// ===== Offline Mutation Queue =====
+// Wraps any adapter. Mutations made offline, or while earlier ones are still queued, are stored
+// (IndexedDB by default) and replayed in order when the connection returns. Rejections that
+// isConflict() recognises stay in the queue as conflicts until they are retried or discarded.
+export class OfflineDataSourceAdapter<T = any> implements DataSourceAdapter<T> {
+  private storage: MutationQueueStorage<T>;
+  private ready: Promise<void>;
+  private lastId = 0;
+  private queueSubject = new BehaviorSubject<QueuedMutation<T>[]>([]);
+  private onlineSubject = new BehaviorSubject<boolean>(
+    typeof navigator === 'undefined' || navigator.onLine !== false
+  );
+  private syncingSubject = new BehaviorSubject<boolean>(false);
+  private conflictSubject = new Subject<MutationConflict<T>>();
+  private syncedSubject = new Subject<{ mutation: QueuedMutation<T>; result: T | void }>();
+  private removeListeners?: () => void;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryAttempts = 0;
+
+  queue$ = this.queueSubject.asObservable();
+  online$ = this.onlineSubject.asObservable();
+  syncing$ = this.syncingSubject.asObservable();
+  conflicts$ = this.conflictSubject.asObservable();
+  synced$ = this.syncedSubject.asObservable();
+
+  constructor(
+    private baseAdapter: DataSourceAdapter<T>,
+    private config: OfflineQueueConfig<T> = {}
+  ) {
+    this.storage = config.storage ?? (typeof indexedDB !== 'undefined'
+      ? new IndexedDBMutationQueueStorage<T>()
+      : new InMemoryMutationQueueStorage<T>());
+
+    // Without readable storage the queue is kept in memory for this session
+    this.ready = this.storage.getAll().catch(error => {
+      console.warn('Offline mutation queue storage is unavailable, falling back to memory:', error);
+      this.storage = new InMemoryMutationQueueStorage<T>();
+      return [];
+    }).then(mutations => {
+      // A replay interrupted by a reload starts over
+      const queue = mutations
+        .sort((a, b) => a.id - b.id)
+        .map(mutation => mutation.status === 'syncing' ? { ...mutation, status: 'queued' as const } : mutation);
+      this.lastId = queue.reduce((max, mutation) => Math.max(max, mutation.id), 0);
+      this.queueSubject.next(queue);
+    });
+
+    this.listenForConnectivity();
+    if (this.config.syncOnReconnect !== false) {
+      this.ready.then(() => this.syncInBackground());
+    }
+  }
+
+  get queue(): QueuedMutation<T>[] {
+    return this.queueSubject.value;
+  }
+
+  get isOnline(): boolean {
+    return this.onlineSubject.value;
+  }
+
+  // True while the row has mutations waiting to reach the server, including conflicts
+  isPendingSync(rowId: string | number): boolean {
+    return this.queueSubject.value.some(mutation => mutation.rowId === rowId);
+  }
+
+  getConflicts(): QueuedMutation<T>[] {
+    return this.queueSubject.value.filter(mutation => mutation.status === 'conflict');
+  }
+
+  // For apps that detect connectivity themselves; coming online starts a replay
+  setOnline(online: boolean) {
+    if (online === this.onlineSubject.value) return;
+
+    this.onlineSubject.next(online);
+    if (!online) {
+      this.cancelRetry();
+    } else if (this.config.syncOnReconnect !== false) {
+      this.syncInBackground();
+    }
+  }
+
+  load(params: DataSourceParams): Observable<DataSourceResult<T>> {
+    return this.baseAdapter.load(params).pipe(
+      map(result => {
+        // Queued creates show under their temporary id so later queued edits apply to them
+        const mutations = this.queueSubject.value
+          .filter(mutation => mutation.status !== 'conflict')
+          .map(mutation => mutation.type === 'create' && !getItemId(mutation.data)
+            ? { ...mutation, data: { ...mutation.data, id: mutation.rowId } as T }
+            : mutation
+          );
+        return applyMutations(result, mutations, params);
+      })
+    );
+  }
+
+  update?(item: T): Observable<T> {
+    if (!this.baseAdapter.update) {
+      return throwError(() => new Error('Data source does not support update'));
+    }
+
+    return this.submit('update', getItemId(item), item, () => this.baseAdapter.update!(item), () => item);
+  }
+
+  delete?(id: string | number): Observable<void> {
+    if (!this.baseAdapter.delete) {
+      return throwError(() => new Error('Data source does not support delete'));
+    }
+
+    return this.submit('delete', id, null, () => this.baseAdapter.delete!(id), () => undefined);
+  }
+
+  create?(item: Partial<T>): Observable<T> {
+    if (!this.baseAdapter.create) {
+      return throwError(() => new Error('Data source does not support create'));
+    }
+
+    // A queued row keeps its temporary id until synced$ reports the created one
+    return this.submit('create', getItemId(item), item, () => this.baseAdapter.create!(item),
+      queued => ({ ...item, id: queued.rowId }) as T
+    );
+  }
+
+  // Replays queued mutations in order and stops at the first failure that is not a conflict.
+  // Later mutations of a row with a conflict wait until it is retried or discarded.
+  sync(): Observable<void> {
+    return defer(() => from(this.ready)).pipe(
+      switchMap(() => {
+        if (this.syncingSubject.value) return of(undefined);
+
+        this.syncingSubject.next(true);
+        return this.replayNext().pipe(
+          finalize(() => this.syncingSubject.next(false))
+        );
+      })
+    );
+  }
+
+  retry(id: number): Observable<void> {
+    const mutation = this.queueSubject.value.find(m => m.id === id);
+    if (!mutation) return of(undefined);
+
+    return from(this.save({ ...mutation, status: 'queued', error: undefined })).pipe(
+      switchMap(() => this.sync())
+    );
+  }
+
+  discard(id: number): Observable<void> {
+    return from(this.remove(id));
+  }
 
-  private getItemId(item: T): string | number {
-    return (item as any).id || (item as any)._id || '';
+  clear(): Observable<void> {
+    return from(this.storage.clear().then(() => this.queueSubject.next([])));
+  }
+
+  disconnect() {
+    this.removeListeners?.();
+    this.cancelRetry();
   }
-} 
\ No newline at end of file
+
+  // Sends straight away unless something for the same row, or anything still queued, would be overtaken
+  private submit<R>(
+    type: QueuedMutation['type'],
+    rowId: string | number,
+    data: T | Partial<T> | null,
+    request: () => Observable<R>,
+    queuedResult: (mutation: QueuedMutation<T>) => R
+  ): Observable<R> {
+    return defer(() => from(this.ready)).pipe(
+      switchMap(() => {
+        const waiting = this.queueSubject.value.some(mutation =>
+          mutation.status !== 'conflict' || mutation.rowId === rowId
+        );
+        if (!this.onlineSubject.value || waiting) {
+          return from(this.enqueue(type, rowId, data)).pipe(map(queuedResult));
+        }
+
+        return request().pipe(
+          catchError(error => this.isConflict(error)
+            ? throwError(() => error)
+            : from(this.enqueue(type, rowId, data)).pipe(
+                tap(() => this.scheduleRetry()),
+                map(queuedResult)
+              )
+          )
+        );
+      })
+    );
+  }
+
+  private enqueue(
+    type: QueuedMutation['type'],
+    rowId: string | number,
+    data: T | Partial<T> | null
+  ): Promise<QueuedMutation<T>> {
+    const id = ++this.lastId;
+    const mutation: QueuedMutation<T> = {
+      id,
+      type,
+      rowId: rowId === '' ? `offline-${id}` : rowId,
+      data,
+      queuedAt: Date.now(),
+      attempts: 0,
+      status: 'queued'
+    };
+
+    return this.storage.put(mutation).then(() => {
+      this.queueSubject.next([...this.queueSubject.value, mutation]);
+      return mutation;
+    });
+  }
+
+  private replayNext(): Observable<void> {
+    const blocked = new Set(this.getConflicts().map(mutation => mutation.rowId));
+    const next = this.queueSubject.value.find(mutation =>
+      mutation.status === 'queued' && !blocked.has(mutation.rowId)
+    );
+    if (!next || !this.onlineSubject.value) return of(undefined);
+
+    return from(this.save({ ...next, status: 'syncing', attempts: next.attempts + 1 })).pipe(
+      switchMap(mutation => this.send(mutation).pipe(
+        switchMap(result => from(this.complete(mutation, result)).pipe(map(() => true))),
+        catchError(error => this.isConflict(error)
+          ? from(this.markConflict(mutation, error)).pipe(map(() => true))
+          : from(this.save({ ...mutation, status: 'queued', error: getErrorMessage(error) })).pipe(
+              tap(() => this.scheduleRetry()),
+              map(() => false)
+            )
+        ),
+        tap(proceed => {
+          if (proceed) this.retryAttempts = 0;
+        })
+      )),
+      switchMap(proceed => proceed ? this.replayNext() : of(undefined))
+    );
+  }
+
+  private syncInBackground() {
+    this.sync().subscribe({ error: () => this.scheduleRetry() });
+  }
+
+  // Nothing else replays a queue stopped by a transient failure while the browser stays online
+  private scheduleRetry() {
+    if (this.retryTimer !== null || !this.onlineSubject.value) return;
+
+    const delay = Math.min(
+      (this.config.retryDelay ?? 1000) * 2 ** this.retryAttempts,
+      this.config.maxRetryDelay ?? 60000
+    );
+    this.retryAttempts++;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.syncInBackground();
+    }, delay);
+  }
+
+  private cancelRetry() {
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.retryAttempts = 0;
+  }
+
+  private send(mutation: QueuedMutation<T>): Observable<T | void> {
+    switch (mutation.type) {
+      case 'create':
+        return this.baseAdapter.create!(mutation.data as Partial<T>);
+      case 'update':
+        return this.baseAdapter.update!(mutation.data as T);
+      case 'delete':
+        return this.baseAdapter.delete!(mutation.rowId);
+    }
+  }
+
+  private complete(mutation: QueuedMutation<T>, result: T | void): Promise<void> {
+    return this.remove(mutation.id).then(() => {
+      // Later mutations of a created row refer to its temporary id
+      const createdId = mutation.type === 'create' && result ? getItemId(result) : '';
+      const updates = createdId && createdId !== mutation.rowId
+        ? this.queueSubject.value
+            .filter(queued => queued.rowId === mutation.rowId)
+            .map(queued => this.save({
+              ...queued,
+              rowId: createdId,
+              data: queued.data && (queued.data as any).id !== undefined
+                ? { ...queued.data, id: createdId }
+                : queued.data
+            }))
+        : [];
+
+      return Promise.all(updates).then(() => this.syncedSubject.next({ mutation, result }));
+    });
+  }
+
+  private markConflict(mutation: QueuedMutation<T>, error: unknown): Promise<void> {
+    const message = getErrorMessage(error);
+    return this.save({ ...mutation, status: 'conflict', error: message }).then(conflict => {
+      this.conflictSubject.next({ mutation: conflict, error, message });
+    });
+  }
+
+  private save(mutation: QueuedMutation<T>): Promise<QueuedMutation<T>> {
+    return this.storage.put(mutation).then(() => {
+      this.queueSubject.next(this.queueSubject.value.map(m => m.id === mutation.id ? mutation : m));
+      return mutation;
+    });
+  }
+
+  private remove(id: number): Promise<void> {
+    return this.storage.delete(id).then(() => {
+      this.queueSubject.next(this.queueSubject.value.filter(mutation => mutation.id !== id));
+    });
+  }
+
+  private isConflict(error: any): boolean {
+    if (this.config.isConflict) return this.config.isConflict(error);
+
+    const status = error?.status;
+    return typeof status === 'number' && status >= 400 && status < 500 && status !== 408 && status !== 429;
+  }
+
+  private listenForConnectivity() {
+    if (typeof window === 'undefined') return;
+
+    const online = () => this.setOnline(true);
+    const offline = () => this.setOnline(false);
+    window.addEventListener('online', online);
+    window.addEventListener('offline', offline);
+    this.removeListeners = () => {
+      window.removeEventListener('online', online);
+      window.removeEventListener('offline', offline);
+    };
+  }
+}
+
+// Shows pending mutations in a load result: updates replace loaded rows, deletes hide them
+// and creates lead the first page
+function applyMutations<T>(
+  result: DataSourceResult<T>,
+  mutations: { type: 'create' | 'update' | 'delete'; rowId: string | number; data: T | Partial<T> | null }[],
+  params: DataSourceParams
+): DataSourceResult<T> {
+  if (mutations.length === 0) return result;
+
+  let data = [...result.data];
+  let totalCount = result.totalCount;
+
+  mutations.forEach(mutation => {
+    const index = data.findIndex(item => getItemId(item) === mutation.rowId);
+
+    if (mutation.type === 'update' && index >= 0) {
+      data[index] = mutation.data as T;
+    } else if (mutation.type === 'delete' && index >= 0) {
+      data.splice(index, 1);
+      totalCount--;
+    } else if (mutation.type === 'create' && index < 0 && (params.page ?? 0) === 0) {
+      data = [mutation.data as T, ...data];
+      totalCount++;
+    }
+  });
+
+  return { ...result, data, totalCount };
+}
+
+// Rows are identified by `id`, or by `_id` as in document stores
+function getItemId(item: any): string | number {
+  return item.id || item._id || '';
+}
+
+function getErrorMessage(error: any): string {
+  return error instanceof Error || typeof error?.message === 'string' ? error.message : String(error);
+}
+
+// Filters, search, sort and paging for adapters that stream the whole data set; totalCount is the match count
+function applyLocalParams<T>(data: T[], params: DataSourceParams): DataSourceResult<T> {
+  let result = [...data];
+
+  if (params.filters && params.filters.length > 0) {
+    result = result.filter(item => matchesAdvancedFilters(item, params.filters!));
+  }
+
+  // Apply search (basic implementation)
+  if (params.search) {
+    const search = params.search.toLowerCase();
+    result = result.filter(item =>
+      JSON.stringify(item).toLowerCase().includes(search)
+    );
+  }
+
+  // Apply sorting
+  if (params.sort && params.sort.length > 0) {
+    const sortConfig = params.sort[0];
+    result.sort((a, b) => {
+      const aVal = (a as any)[sortConfig.field];
+      const bVal = (b as any)[sortConfig.field];
+
+      if (aVal < bVal) return sortConfig.direction === 'asc' ? -1 : 1;
+      if (aVal > bVal) return sortConfig.direction === 'asc' ? 1 : -1;
+      return 0;
+    });
+  }
+
+  const totalCount = result.length;
+
+  // Apply pagination
+  if (params.page !== undefined && params.pageSize !== undefined) {
+    const start = params.page * params.pageSize;
+    result = result.slice(start, start + params.pageSize);
+  }
+
+  return { data: result, totalCount, page: params.page, pageSize: params.pageSize };
+}
+
+// RFC 6902. The document is copied along each changed path; a failed operation throws.
+function applyJsonPatch<T>(document: T, patch: JsonPatchOperation[]): T {
+  return patch.reduce((doc: any, operation) => {
+    const path = parseJsonPointer(operation.path);
+
+    switch (operation.op) {
+      case 'add':
+        return addJsonValue(doc, path, operation.value);
+      case 'remove':
+        return removeJsonValue(doc, path);
+      case 'replace':
+        getJsonValue(doc, path);
+        return path.length === 0
+          ? operation.value
+          : updateJsonParent(doc, path, (parent, key) => setJsonChild(parent, key, operation.value));
+      case 'move': {
+        const from = parseJsonPointer(operation.from ?? '');
+        const value = getJsonValue(doc, from);
+        return addJsonValue(removeJsonValue(doc, from), path, value);
+      }
+      case 'copy':
+        return addJsonValue(doc, path, getJsonValue(doc, parseJsonPointer(operation.from ?? '')));
+      case 'test':
+        if (JSON.stringify(sortJsonKeys(getJsonValue(doc, path))) !== JSON.stringify(sortJsonKeys(operation.value))) {
+          throw new Error(`JSON Patch test failed at ${operation.path}`);
+        }
+        return doc;
+      default:
+        throw new Error(`Unsupported JSON Patch operation: ${(operation as any).op}`);
+    }
+  }, document);
+}
+
+function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer: ${pointer}`);
+  }
+  return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function getJsonValue(doc: any, path: string[]): any {
+  return path.reduce((value, key) => {
+    const isArray = Array.isArray(value);
+    if (value === null || typeof value !== 'object' ||
+        (isArray ? !/^(0|[1-9]\d*)$/.test(key) || Number(key) >= value.length : !Object.prototype.hasOwnProperty.call(value, key))) {
+      throw new Error(`JSON Patch path not found: /${path.join('/')}`);
+    }
+    return value[isArray ? Number(key) : key];
+  }, doc);
+}
+
+function addJsonValue(doc: any, path: string[], value: any): any {
+  if (path.length === 0) return value;
+
+  return updateJsonParent(doc, path, (parent, key) => {
+    if (!Array.isArray(parent)) return { ...parent, [key]: value };
+
+    const index = key === '-' ? parent.length : getJsonIndex(parent, key, parent.length);
+    return [...parent.slice(0, index), value, ...parent.slice(index)];
+  });
+}
+
+function removeJsonValue(doc: any, path: string[]): any {
+  if (path.length === 0) {
+    throw new Error('JSON Patch cannot remove the document root');
+  }
+  getJsonValue(doc, path);
+
+  return updateJsonParent(doc, path, (parent, key) => {
+    if (Array.isArray(parent)) {
+      const index = getJsonIndex(parent, key, parent.length - 1);
+      return [...parent.slice(0, index), ...parent.slice(index + 1)];
+    }
+
+    const { [key]: removed, ...rest } = parent;
+    return rest;
+  });
+}
+
+function setJsonChild(parent: any, key: string, value: any): any {
+  if (!Array.isArray(parent)) return { ...parent, [key]: value };
+
+  const copy = [...parent];
+  copy[getJsonIndex(parent, key, parent.length - 1)] = value;
+  return copy;
+}
+
+// Copies each container on the way to the last token and lets update() replace its parent
+function updateJsonParent(doc: any, path: string[], update: (parent: any, key: string) => any): any {
+  const [key, ...rest] = path;
+  if (doc === null || typeof doc !== 'object') {
+    throw new Error(`JSON Patch path not found: /${path.join('/')}`);
+  }
+  if (rest.length === 0) return update(doc, key);
+
+  const child = getJsonValue(doc, [key]);
+  return setJsonChild(doc, key, updateJsonParent(child, rest, update));
+}
+
+function getJsonIndex(array: any[], key: string, max: number): number {
+  if (!/^(0|[1-9]\d*)$/.test(key) || Number(key) > max) {
+    throw new Error(`Invalid JSON Patch array index: ${key}`);
+  }
+  return Number(key);
+}
+
+function rowCacheTag(id: string | number): string {
+  return `row:${id}`;
+}
+
+function sortJsonKeys(value: any): any {
+  if (Array.isArray(value)) return value.map(sortJsonKeys);
+  if (value === null || typeof value !== 'object') return value;
+  return Object.keys(value).sort().reduce((sorted, key) => ({ ...sorted, [key]: sortJsonKeys(value[key]) }), {});
+}
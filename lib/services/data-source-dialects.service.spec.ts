@@ -0,0 +1,234 @@
+import { AdvancedFilter, DataSourceParams, RemoteDataDialect } from '../interfaces/advanced-grid.interface';
+import {
+  DefaultRemoteDialect,
+  DjangoRestDialect,
+  JsonApiDialect,
+  SpringDataDialect,
+  StrapiDialect,
+  UnsupportedFilterError
+} from './data-source-dialects.service';
+
+interface DialectCase {
+  name: string;
+  params: DataSourceParams;
+  query: Record<string, string | string[]>;
+}
+
+interface ResponseCase {
+  name: string;
+  response: any;
+  params?: DataSourceParams;
+  result: any;
+}
+
+function describeDialect(title: string, dialect: RemoteDataDialect, queries: DialectCase[], responses: ResponseCase[]) {
+  describe(title, () => {
+    queries.forEach(({ name, params, query }) => {
+      it(`builds params: ${name}`, () => {
+        expect(dialect.buildParams(params)).toEqual(query);
+      });
+    });
+
+    responses.forEach(({ name, response, params, result }) => {
+      it(`parses the response: ${name}`, () => {
+        expect(dialect.parseResponse(response, params ?? {})).toEqual(jasmine.objectContaining(result));
+      });
+    });
+  });
+}
+
+function filter(columnId: string, operator: AdvancedFilter['operator'], value: any, extra: Partial<AdvancedFilter> = {}): AdvancedFilter {
+  return { columnId, operator, value, ...extra };
+}
+
+describeDialect('DefaultRemoteDialect', new DefaultRemoteDialect(), [
+  {
+    name: 'page, sort and filters as JSON',
+    params: { page: 2, pageSize: 10, sort: [{ field: 'name', direction: 'asc' }], filters: [filter('a', 'equals', 1)] },
+    query: {
+      page: '2',
+      pageSize: '10',
+      sort: '[{"field":"name","direction":"asc"}]',
+      filters: '[{"columnId":"a","operator":"equals","value":1}]'
+    }
+  },
+  {
+    name: 'a cursor in place of the page',
+    params: { page: 3, pageSize: 10, after: 'c1' },
+    query: { after: 'c1', pageSize: '10' }
+  }
+], [
+  {
+    name: 'a plain list',
+    response: [{ id: 1 }],
+    result: { data: [{ id: 1 }], totalCount: 1 }
+  },
+  {
+    name: 'items with a connection-style pageInfo',
+    response: { items: [{ id: 1 }], total: 5, pageInfo: { endCursor: 'e', startCursor: 's', hasNextPage: true } },
+    result: { data: [{ id: 1 }], totalCount: 5, endCursor: 'e', startCursor: 's', hasNext: true }
+  }
+]);
+
+describeDialect('JsonApiDialect', new JsonApiDialect({ type: 'users' }), [
+  {
+    name: '1-based page, signed sort, operator filters and sparse fields',
+    params: {
+      page: 1,
+      pageSize: 25,
+      sort: [{ field: 'name', direction: 'desc' }, { field: 'age', direction: 'asc' }],
+      filters: [filter('name', 'equals', 'x'), filter('age', 'between', 18, { value2: 30 })],
+      columns: ['name', 'age']
+    },
+    query: {
+      'page[number]': '2',
+      'page[size]': '25',
+      sort: '-name,age',
+      'filter[name]': 'x',
+      'filter[age][between]': '18,30',
+      'fields[users]': 'name,age'
+    }
+  },
+  {
+    name: 'the cursor pagination profile',
+    params: { pageSize: 25, before: 'b1' },
+    query: { 'page[before]': 'b1', 'page[size]': '25' }
+  }
+], [
+  {
+    name: 'resource objects flattened with their meta total',
+    response: { data: [{ id: '1', type: 'users', attributes: { name: 'a' } }], meta: { total: 9 } },
+    params: { page: 0, pageSize: 25 },
+    result: { data: [{ id: '1', name: 'a' }], totalCount: 9, page: 0, pageSize: 25 }
+  },
+  {
+    name: 'cursors from next and prev links',
+    response: { data: [], links: { next: '/users?page[after]=n1', prev: null } },
+    result: { endCursor: 'n1', hasNext: true, hasPrevious: false }
+  }
+]);
+
+describeDialect('SpringDataDialect', new SpringDataDialect(), [
+  {
+    name: '0-based page, repeated sort and value matches',
+    params: {
+      page: 1,
+      pageSize: 20,
+      sort: [{ field: 'name', direction: 'asc' }, { field: 'price', direction: 'desc' }],
+      filters: [filter('status', 'equals', 'open'), filter('tag', 'in', ['a', 'b'])]
+    },
+    query: { page: '1', size: '20', sort: ['name,asc', 'price,desc'], status: 'open', tag: ['a', 'b'] }
+  }
+], [
+  {
+    name: 'a Page<T>',
+    response: { content: [{ id: 1 }], totalElements: 40, number: 1, size: 20 },
+    result: { data: [{ id: 1 }], totalCount: 40, page: 1, pageSize: 20 }
+  },
+  {
+    name: 'Spring Data REST HAL',
+    response: { _embedded: { users: [{ id: 1 }] }, page: { totalElements: 3, number: 0, size: 2 } },
+    result: { data: [{ id: 1 }], totalCount: 3, page: 0, pageSize: 2 }
+  }
+]);
+
+describeDialect('DjangoRestDialect', new DjangoRestDialect(), [
+  {
+    name: '1-based page, ordering and lookup expressions',
+    params: {
+      page: 0,
+      pageSize: 25,
+      sort: [{ field: 'name', direction: 'desc' }],
+      filters: [
+        filter('name', 'contains', 'ab'),
+        filter('owner.email', 'equals', 'X@y.z'),
+        filter('price', 'between', 10, { value2: 20 }),
+        filter('status', 'in', ['a', 'b']),
+        filter('deletedAt', 'isEmpty', null)
+      ],
+      search: 'q'
+    },
+    query: {
+      page: '1',
+      page_size: '25',
+      ordering: '-name',
+      name__icontains: 'ab',
+      owner__email__iexact: 'X@y.z',
+      price__range: '10,20',
+      status__in: 'a,b',
+      deletedAt__isnull: 'true',
+      search: 'q'
+    }
+  }
+], [
+  {
+    name: 'a paginated list with cursor links',
+    response: { count: 50, next: 'http://api/items/?cursor=abc', previous: null, results: [{ id: 1 }] },
+    params: { page: 0, pageSize: 25 },
+    result: { data: [{ id: 1 }], totalCount: 50, endCursor: 'abc', startCursor: null, hasNext: true, hasPrevious: false }
+  }
+]);
+
+describeDialect('DjangoRestDialect (limitOffset)', new DjangoRestDialect({ pagination: 'limitOffset' }), [
+  {
+    name: 'limit and offset',
+    params: { page: 2, pageSize: 10 },
+    query: { limit: '10', offset: '20' }
+  }
+], []);
+
+describeDialect('StrapiDialect', new StrapiDialect(), [
+  {
+    name: 'pagination, indexed sort, nested filters and $or groups',
+    params: {
+      page: 0,
+      pageSize: 10,
+      sort: [{ field: 'name', direction: 'asc' }],
+      filters: [
+        filter('author.name', 'contains', 'x'),
+        filter('views', 'greaterThan', 5, { condition: 'or' }),
+        filter('tag', 'notIn', ['a'], { condition: 'or' })
+      ],
+      columns: ['name']
+    },
+    query: {
+      'pagination[page]': '1',
+      'pagination[pageSize]': '10',
+      'sort[0]': 'name:asc',
+      'filters[author][name][$containsi]': 'x',
+      'filters[$or][0][views][$gt]': '5',
+      'filters[$or][1][tag][$notIn][0]': 'a',
+      'fields[0]': 'name'
+    }
+  }
+], [
+  {
+    name: 'Strapi 4 attributes',
+    response: { data: [{ id: 1, attributes: { name: 'a' } }], meta: { pagination: { total: 7, pageSize: 10 } } },
+    result: { data: [{ id: 1, name: 'a' }], totalCount: 7, pageSize: 10 }
+  },
+  {
+    name: 'Strapi 5 flat entries',
+    response: { data: [{ id: 1, name: 'a' }], meta: { pagination: { total: 1 } } },
+    result: { data: [{ id: 1, name: 'a' }], totalCount: 1 }
+  }
+]);
+
+describe('unsupported filters', () => {
+  const cases: [string, RemoteDataDialect, AdvancedFilter][] = [
+    ['SpringDataDialect', new SpringDataDialect(), filter('name', 'contains', 'x')],
+    ['DjangoRestDialect', new DjangoRestDialect(), filter('status', 'notIn', ['a'])],
+    ['DjangoRestDialect', new DjangoRestDialect(), filter('score', 'custom', 1)],
+    ['StrapiDialect', new StrapiDialect(), filter('code', 'regex', '^A')],
+    ['StrapiDialect', new StrapiDialect(), filter('score', 'custom', 1)]
+  ];
+
+  cases.forEach(([name, dialect, unsupported]) => {
+    it(`${name} rejects '${unsupported.operator}'`, () => {
+      expect(() => dialect.buildParams({ filters: [unsupported] })).toThrowMatching(error =>
+        error instanceof UnsupportedFilterError && error.filter === unsupported &&
+        error.message === `${name} cannot express the '${unsupported.operator}' filter on '${unsupported.columnId}'`
+      );
+    });
+  });
+});
@@ -0,0 +1,415 @@
+import {
+  AdvancedFilter,
+  DataSourceParams,
+  DataSourceResult,
+  RemoteDataDialect
+} from '../interfaces/advanced-grid.interface';
+
+type QueryParams = Record<string, string | string[]>;
+
+// Pages in DataSourceParams are 0-based; dialects convert them to the API's convention.
+
+// Thrown for a filter the API cannot express, instead of loading unfiltered rows
+export class UnsupportedFilterError extends Error {
+  constructor(readonly dialect: string, readonly filter: AdvancedFilter) {
+    super(`${dialect} cannot express the '${filter.operator}' filter on '${filter.columnId}'`);
+    this.name = 'UnsupportedFilterError';
+  }
+}
+
+// ===== Default =====
+// sort and filters as JSON strings; the response shape is detected from common field names.
+// Cursors are sent as before/after in place of page.
+export class DefaultRemoteDialect<T = any> implements RemoteDataDialect<T> {
+  buildParams(params: DataSourceParams): QueryParams {
+    const query: QueryParams = {};
+
+    if (params.after || params.before) {
+      query[params.after ? 'after' : 'before'] = (params.after ?? params.before)!;
+    } else if (params.page !== undefined) {
+      query['page'] = params.page.toString();
+    }
+    if (params.pageSize !== undefined) {
+      query['pageSize'] = params.pageSize.toString();
+    }
+    if (params.sort && params.sort.length > 0) {
+      query['sort'] = JSON.stringify(params.sort);
+    }
+    if (params.filters && params.filters.length > 0) {
+      query['filters'] = JSON.stringify(params.filters);
+    }
+    if (params.search) {
+      query['search'] = params.search;
+    }
+    if (params.columns && params.columns.length > 0) {
+      query['columns'] = params.columns.join(',');
+    }
+
+    return query;
+  }
+
+  buildBody(params: DataSourceParams): any {
+    return {
+      page: params.page,
+      pageSize: params.pageSize,
+      sort: params.sort,
+      filters: params.filters,
+      search: params.search,
+      columns: params.columns,
+      before: params.before,
+      after: params.after
+    };
+  }
+
+  parseResponse(response: any): DataSourceResult<T> {
+    if (response.data && response.totalCount !== undefined) {
+      return response as DataSourceResult<T>;
+    }
+
+    if (Array.isArray(response)) {
+      return {
+        data: response,
+        totalCount: response.length
+      };
+    }
+
+    const pageInfo = response.pageInfo ?? {};
+    const nextCursor = response.endCursor ?? response.nextCursor ?? pageInfo.endCursor;
+    const previousCursor = response.startCursor ?? response.prevCursor ?? response.previousCursor ?? pageInfo.startCursor;
+
+    return {
+      data: response.items || response.data || [],
+      totalCount: response.total || response.totalCount || 0,
+      page: response.page,
+      pageSize: response.pageSize,
+      aggregations: response.aggregations,
+      startCursor: previousCursor,
+      endCursor: nextCursor,
+      // A null next/previous cursor means there is nothing on that side
+      hasNext: response.hasNext ?? response.hasNextPage ?? pageInfo.hasNextPage ?? (nextCursor !== undefined ? nextCursor !== null : undefined),
+      hasPrevious: response.hasPrevious ?? response.hasPreviousPage ?? pageInfo.hasPreviousPage ?? (previousCursor !== undefined ? previousCursor !== null : undefined)
+    };
+  }
+}
+
+// ===== JSON:API =====
+// sort=-name,price  page[number]=1&page[size]=25  filter[name]=x  filter[price][gt]=10  fields[type]=a,b
+// Cursors use the cursor pagination profile: page[after]=x / page[before]=x
+export interface JsonApiDialectOptions {
+  // Resource type used for sparse fieldsets
+  type?: string;
+  searchParam?: string;
+}
+
+export class JsonApiDialect<T = any> implements RemoteDataDialect<T> {
+  constructor(private options: JsonApiDialectOptions = {}) {}
+
+  buildParams(params: DataSourceParams): QueryParams {
+    const query: QueryParams = {};
+
+    if (params.after || params.before) {
+      query[params.after ? 'page[after]' : 'page[before]'] = (params.after ?? params.before)!;
+      if (params.pageSize !== undefined) {
+        query['page[size]'] = params.pageSize.toString();
+      }
+    } else if (params.pageSize !== undefined) {
+      query['page[number]'] = ((params.page ?? 0) + 1).toString();
+      query['page[size]'] = params.pageSize.toString();
+    }
+    if (params.sort && params.sort.length > 0) {
+      query['sort'] = params.sort.map(sort => (sort.direction === 'desc' ? '-' : '') + sort.field).join(',');
+    }
+    (params.filters ?? []).forEach(filter => {
+      const operator = filter.operator === 'equals' ? '' : `[${filter.operator}]`;
+      const value = filter.operator === 'between'
+        ? [filter.value, filter.value2].map(formatValue).join(',')
+        : Array.isArray(filter.value) ? filter.value.map(formatValue).join(',') : formatValue(filter.value);
+      query[`filter[${filter.columnId}]${operator}`] = value;
+    });
+    if (params.search) {
+      query[this.options.searchParam ?? 'filter[search]'] = params.search;
+    }
+    if (params.columns && params.columns.length > 0 && this.options.type) {
+      query[`fields[${this.options.type}]`] = params.columns.join(',');
+    }
+
+    return query;
+  }
+
+  parseResponse(response: any, params: DataSourceParams): DataSourceResult<T> {
+    const resources: any[] = Array.isArray(response?.data) ? response.data : [];
+    const meta = response?.meta ?? {};
+    const links = response?.links ?? {};
+
+    return {
+      // Resource objects are flattened to { id, ...attributes }
+      data: resources.map(resource => ({ id: resource.id, ...resource.attributes }) as T),
+      totalCount: meta.total ?? meta.totalCount ?? meta.count ?? meta.page?.total ?? resources.length,
+      page: params.page,
+      pageSize: params.pageSize,
+      // Each resource carries its own cursor in meta.page.cursor
+      startCursor: resources[0]?.meta?.page?.cursor ?? getQueryParam(links.prev, 'page[before]'),
+      endCursor: resources[resources.length - 1]?.meta?.page?.cursor ?? getQueryParam(links.next, 'page[after]'),
+      hasNext: links.next !== undefined ? !!links.next : undefined,
+      hasPrevious: links.prev !== undefined ? !!links.prev : undefined
+    };
+  }
+}
+
+// ===== Spring Data =====
+// page=0&size=25&sort=name,asc&sort=price,desc  name=x
+export class SpringDataDialect<T = any> implements RemoteDataDialect<T> {
+  buildParams(params: DataSourceParams): QueryParams {
+    const query: QueryParams = {};
+
+    if (params.pageSize !== undefined) {
+      query['page'] = (params.page ?? 0).toString();
+      query['size'] = params.pageSize.toString();
+    }
+    if (params.sort && params.sort.length > 0) {
+      query['sort'] = params.sort.map(sort => `${sort.field},${sort.direction}`);
+    }
+    // Spring binds request parameters by property name, so only value matches are expressible
+    (params.filters ?? []).forEach(filter => {
+      if (filter.operator === 'equals') {
+        query[filter.columnId] = formatValue(filter.value);
+      } else if (filter.operator === 'in') {
+        query[filter.columnId] = toArray(filter.value).map(formatValue);
+      } else {
+        throw new UnsupportedFilterError('SpringDataDialect', filter);
+      }
+    });
+    if (params.search) {
+      query['search'] = params.search;
+    }
+
+    return query;
+  }
+
+  parseResponse(response: any, params: DataSourceParams): DataSourceResult<T> {
+    // Page<T> JSON, or the HAL form produced by Spring Data REST
+    const embedded = response?._embedded;
+    const data: T[] = response?.content
+      ?? (embedded ? embedded[Object.keys(embedded)[0]] ?? [] : Array.isArray(response) ? response : []);
+    const page = response?.page;
+
+    return {
+      data,
+      totalCount: response?.totalElements ?? page?.totalElements ?? data.length,
+      page: response?.number ?? page?.number ?? params.page,
+      pageSize: response?.size ?? page?.size ?? params.pageSize
+    };
+  }
+}
+
+// ===== Django REST Framework =====
+// page=1&page_size=25&ordering=-name,price&search=x  name__icontains=x  price__range=10,20
+export interface DjangoRestDialectOptions {
+  // 'limitOffset' sends limit/offset for LimitOffsetPagination; cursors always use CursorPagination
+  pagination?: 'pageNumber' | 'limitOffset';
+  pageSizeParam?: string;
+  cursorParam?: string;
+}
+
+export class DjangoRestDialect<T = any> implements RemoteDataDialect<T> {
+  constructor(private options: DjangoRestDialectOptions = {}) {}
+
+  buildParams(params: DataSourceParams): QueryParams {
+    const query: QueryParams = {};
+
+    if (params.after || params.before) {
+      // CursorPagination encodes the direction in the cursor itself
+      query[this.options.cursorParam ?? 'cursor'] = (params.after ?? params.before)!;
+      if (params.pageSize !== undefined) {
+        query[this.options.pageSizeParam ?? 'page_size'] = params.pageSize.toString();
+      }
+    } else if (params.pageSize !== undefined) {
+      if (this.options.pagination === 'limitOffset') {
+        query['limit'] = params.pageSize.toString();
+        query['offset'] = ((params.page ?? 0) * params.pageSize).toString();
+      } else {
+        query['page'] = ((params.page ?? 0) + 1).toString();
+        query[this.options.pageSizeParam ?? 'page_size'] = params.pageSize.toString();
+      }
+    }
+    if (params.sort && params.sort.length > 0) {
+      query['ordering'] = params.sort.map(sort => (sort.direction === 'desc' ? '-' : '') + sort.field).join(',');
+    }
+    (params.filters ?? []).forEach(filter => {
+      const lookup = this.getLookup(filter);
+      query[lookup.key] = lookup.value;
+    });
+    if (params.search) {
+      query['search'] = params.search;
+    }
+
+    return query;
+  }
+
+  parseResponse(response: any, params: DataSourceParams): DataSourceResult<T> {
+    // Unpaginated endpoints return a plain list
+    if (Array.isArray(response)) {
+      return { data: response, totalCount: response.length };
+    }
+
+    const results: T[] = response?.results ?? [];
+    const cursorParam = this.options.cursorParam ?? 'cursor';
+
+    return {
+      data: results,
+      // CursorPagination does not count
+      totalCount: response?.count ?? results.length,
+      page: params.page,
+      pageSize: params.pageSize,
+      startCursor: getQueryParam(response?.previous, cursorParam),
+      endCursor: getQueryParam(response?.next, cursorParam),
+      hasNext: response?.next !== undefined ? !!response.next : undefined,
+      hasPrevious: response?.previous !== undefined ? !!response.previous : undefined
+    };
+  }
+
+  // django-filter lookup expressions
+  private getLookup(filter: AdvancedFilter): { key: string; value: string } {
+    const field = filter.columnId.replace(/\./g, '__');
+    const i = filter.caseSensitive ? '' : 'i';
+
+    switch (filter.operator) {
+      case 'equals':
+        return typeof filter.value === 'string' && !filter.caseSensitive
+          ? { key: `${field}__iexact`, value: filter.value }
+          : { key: field, value: formatValue(filter.value) };
+      case 'contains':
+        return { key: `${field}__${i}contains`, value: formatValue(filter.value) };
+      case 'startsWith':
+        return { key: `${field}__${i}startswith`, value: formatValue(filter.value) };
+      case 'endsWith':
+        return { key: `${field}__${i}endswith`, value: formatValue(filter.value) };
+      case 'greaterThan':
+        return { key: `${field}__gt`, value: formatValue(filter.value) };
+      case 'lessThan':
+        return { key: `${field}__lt`, value: formatValue(filter.value) };
+      case 'between':
+        return { key: `${field}__range`, value: `${formatValue(filter.value)},${formatValue(filter.value2)}` };
+      case 'in':
+        return { key: `${field}__in`, value: toArray(filter.value).map(formatValue).join(',') };
+      case 'isEmpty':
+        return { key: `${field}__isnull`, value: 'true' };
+      case 'isNotEmpty':
+        return { key: `${field}__isnull`, value: 'false' };
+      case 'regex':
+        return { key: `${field}__${i}regex`, value: formatValue(filter.value) };
+      default:
+        throw new UnsupportedFilterError('DjangoRestDialect', filter);
+    }
+  }
+}
+
+// ===== Strapi =====
+// pagination[page]=1&pagination[pageSize]=25&sort[0]=name:asc&filters[name][$containsi]=x
+export class StrapiDialect<T = any> implements RemoteDataDialect<T> {
+  buildParams(params: DataSourceParams): QueryParams {
+    const query: QueryParams = {};
+
+    if (params.pageSize !== undefined) {
+      query['pagination[page]'] = ((params.page ?? 0) + 1).toString();
+      query['pagination[pageSize]'] = params.pageSize.toString();
+    }
+    (params.sort ?? []).forEach((sort, index) => {
+      query[`sort[${index}]`] = `${sort.field}:${sort.direction}`;
+    });
+
+    // 'or' filters are grouped under $or, like SmartFilteringService evaluates them
+    const filters = params.filters ?? [];
+    filters.filter(f => f.condition !== 'or').forEach(filter => {
+      this.addFilter(query, 'filters', filter);
+    });
+    filters.filter(f => f.condition === 'or').forEach((filter, index) => {
+      this.addFilter(query, `filters[$or][${index}]`, filter);
+    });
+
+    if (params.search) {
+      query['_q'] = params.search;
+    }
+    (params.columns ?? []).forEach((column, index) => {
+      query[`fields[${index}]`] = column;
+    });
+
+    return query;
+  }
+
+  parseResponse(response: any, params: DataSourceParams): DataSourceResult<T> {
+    const entries: any[] = Array.isArray(response?.data) ? response.data : [];
+    const pagination = response?.meta?.pagination ?? {};
+
+    return {
+      // Strapi 4 nests fields under attributes; Strapi 5 returns them flat
+      data: entries.map(entry => entry.attributes ? { id: entry.id, ...entry.attributes } : entry),
+      totalCount: pagination.total ?? entries.length,
+      page: params.page,
+      pageSize: pagination.pageSize ?? params.pageSize
+    };
+  }
+
+  private addFilter(query: QueryParams, prefix: string, filter: AdvancedFilter) {
+    const key = `${prefix}[${filter.columnId.replace(/\./g, '][')}]`;
+    const i = filter.caseSensitive ? '' : 'i';
+
+    switch (filter.operator) {
+      case 'equals':
+        query[`${key}[$eq${typeof filter.value === 'string' ? i : ''}]`] = formatValue(filter.value);
+        break;
+      case 'contains':
+        query[`${key}[$contains${i}]`] = formatValue(filter.value);
+        break;
+      case 'startsWith':
+        query[`${key}[$startsWith${i}]`] = formatValue(filter.value);
+        break;
+      case 'endsWith':
+        query[`${key}[$endsWith${i}]`] = formatValue(filter.value);
+        break;
+      case 'greaterThan':
+        query[`${key}[$gt]`] = formatValue(filter.value);
+        break;
+      case 'lessThan':
+        query[`${key}[$lt]`] = formatValue(filter.value);
+        break;
+      case 'between':
+        query[`${key}[$between][0]`] = formatValue(filter.value);
+        query[`${key}[$between][1]`] = formatValue(filter.value2);
+        break;
+      case 'in':
+      case 'notIn':
+        toArray(filter.value).forEach((value, index) => {
+          query[`${key}[$${filter.operator}][${index}]`] = formatValue(value);
+        });
+        break;
+      case 'isEmpty':
+        query[`${key}[$null]`] = 'true';
+        break;
+      case 'isNotEmpty':
+        query[`${key}[$notNull]`] = 'true';
+        break;
+      default:
+        throw new UnsupportedFilterError('StrapiDialect', filter);
+    }
+  }
+}
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+function toArray(value: any): any[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function getQueryParam(url: string | null | undefined, name: string): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url, 'http://localhost').searchParams.get(name);
+  } catch {
+    return null;
+  }
+}
@@ -9,6 +9,7 @@ import {
   ImportError,
   ImportWarning
 } from '../interfaces/advanced-grid.interface';
+import { escapeCSV, escapeXml, parseDelimited } from '../utils/delimited-text.utils';
 
 // Note: For production use, you'd want to install proper libraries:
 // - xlsx for Excel support
@@ -45,12 +46,12 @@ export class ExportImportService<T = any> {
     try {
       const columns = this.getExportColumns(data, config);
       const headers = config.includeHeaders !== false ? 
-        columns.map(col => this.escapeCSV(col)) : [];
+        columns.map(col => escapeCSV(col)) : [];
       
       const rows = data.map(item => 
         columns.map(col => {
           const value = this.getFieldValue(item, col);
-          return this.escapeCSV(this.formatValue(value, config));
+          return escapeCSV(this.formatValue(value, config));
         })
       );
 
@@ -164,7 +165,7 @@ export class ExportImportService<T = any> {
       const columns = config.columns || Object.keys(item as any);
       columns.forEach(col => {
         const value = this.getFieldValue(item, col);
-        const escapedValue = this.escapeXml(String(value || ''));
+        const escapedValue = escapeXml(String(value || ''));
         xml += `${indent}${indent}<${col}>${escapedValue}</${col}>\n`;
       });
       
@@ -236,12 +237,16 @@ export class ExportImportService<T = any> {
   }
 
   private importFromCsv(content: string, config: ImportConfig): ImportResult<T> {
-    const lines = content.split('\n').map(line => line.trim()).filter(line => line);
+    const delimiter = config.delimiter || ',';
+    // Fields are trimmed and blank lines skipped; quoted fields may span lines
+    const records = parseDelimited(content, delimiter)
+      .map(record => record.map(field => field.trim()))
+      .filter(record => record.length > 1 || record[0] !== '');
     const errors: ImportError[] = [];
     const warnings: ImportWarning[] = [];
     const data: T[] = [];
 
-    if (lines.length === 0) {
+    if (records.length === 0) {
       return {
         success: false,
         errors: [{ row: 0, message: 'Empty file' }],
@@ -250,23 +255,22 @@ export class ExportImportService<T = any> {
       };
     }
 
-    const delimiter = config.delimiter || ',';
     let headers: string[] = [];
     let startRow = 0;
 
     // Parse headers
     if (config.hasHeaders !== false) {
-      headers = this.parseCsvRow(lines[0], delimiter);
+      headers = records[0];
       startRow = 1;
     } else {
       // Generate default headers
-      const firstRow = this.parseCsvRow(lines[0], delimiter);
+      const firstRow = records[0];
       headers = firstRow.map((_, index) => `Column${index + 1}`);
     }
 
     // Parse data rows
-    for (let i = startRow; i < lines.length; i++) {
-      const rowData = this.parseCsvRow(lines[i], delimiter);
+    for (let i = startRow; i < records.length; i++) {
+      const rowData = records[i];
       const rowIndex = i + 1;
 
       if (rowData.length !== headers.length) {
@@ -300,7 +304,7 @@ export class ExportImportService<T = any> {
       data,
       errors,
       warnings,
-      totalRows: lines.length - startRow,
+      totalRows: records.length - startRow,
       validRows: data.length
     };
   }
@@ -594,37 +598,6 @@ export class ExportImportService<T = any> {
       .replace('ss', date.getSeconds().toString().padStart(2, '0'));
   }
 
-  private parseCsvRow(row: string, delimiter: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    let i = 0;
-
-    while (i < row.length) {
-      const char = row[i];
-      
-      if (char === '"') {
-        if (inQuotes && row[i + 1] === '"') {
-          current += '"';
-          i += 2;
-        } else {
-          inQuotes = !inQuotes;
-          i++;
-        }
-      } else if (char === delimiter && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-        i++;
-      } else {
-        current += char;
-        i++;
-      }
-    }
-    
-    result.push(current.trim());
-    return result;
-  }
-
   private parseValue(value: string): any {
     // Try to parse as number
     const num = Number(value);
@@ -644,22 +617,6 @@ export class ExportImportService<T = any> {
     return value;
   }
 
-  private escapeCSV(value: string): string {
-    if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-      return `"${value.replace(/"/g, '""')}"`;
-    }
-    return value;
-  }
-
-  private escapeXml(value: string): string {
-    return value
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&apos;');
-  }
-
   private unescapeXml(value: string): string {
     return value
       .replace(/&lt;/g, '<')
@@ -0,0 +1,205 @@
+import { Injectable, signal, computed, effect, inject, untracked } from '@angular/core';
+import { Subject } from 'rxjs';
+import { HistoryConfig, HistoryEntry } from '../interfaces/advanced-grid.interface';
+import { GridStateService } from './grid-state.service';
+import { ColumnManagementService } from './column-management.service';
+import { SmartFilteringService } from './smart-filtering.service';
+import { CellEditingService } from './cell-editing.service';
+
+interface HistorySnapshot<T> {
+  key: string;
+  grid: any;
+  columns?: any;
+  filtering?: any;
+  editing?: any;
+  data?: T[];
+}
+
+interface HistoryRecord<T> extends HistoryEntry {
+  snapshot: HistorySnapshot<T>;
+}
+
+@Injectable()
+export class GridHistoryService<T = any> {
+  private gridService = inject<GridStateService<T>>(GridStateService);
+  private columnService = inject<ColumnManagementService<T>>(ColumnManagementService, { optional: true });
+  private filteringService = inject<SmartFilteringService<T>>(SmartFilteringService, { optional: true });
+  private editingService = inject<CellEditingService<T>>(CellEditingService, { optional: true });
+
+  private _config = signal<HistoryConfig>({
+    enabled: false,
+    maxHistory: 50,
+    trackData: true
+  });
+  private _undoStack = signal<HistoryRecord<T>[]>([]);
+  private _redoStack = signal<HistoryRecord<T>[]>([]);
+
+  private lastSnapshot: HistorySnapshot<T> | null = null;
+  private transactionDepth = 0;
+  private transactionLabel?: string;
+  private restoring = false;
+
+  // Events
+  private _historyChanged = new Subject<{ type: 'record' | 'undo' | 'redo' | 'clear'; entry?: HistoryEntry }>();
+
+  // Public observables
+  historyChanged$ = this._historyChanged.asObservable();
+
+  // Computed states
+  canUndo = computed(() => this._undoStack().length > 0);
+  canRedo = computed(() => this._redoStack().length > 0);
+  undoEntries = computed<HistoryEntry[]>(() =>
+    this._undoStack().map(({ label, timestamp }) => ({ label, timestamp }))
+  );
+  redoEntries = computed<HistoryEntry[]>(() =>
+    this._redoStack().map(({ label, timestamp }) => ({ label, timestamp }))
+  );
+
+  constructor() {
+    // Record a history entry whenever tracked state settles on a new value
+    effect(() => {
+      if (!this._config().enabled) return;
+
+      const snapshot = this.takeSnapshot();
+      untracked(() => this.recordSnapshot(snapshot));
+    });
+  }
+
+  // Initialization
+  initialize(config: HistoryConfig = {}) {
+    this._config.update(current => ({ ...current, enabled: true, ...config }));
+    this.clear();
+  }
+
+  // ===== UNDO / REDO =====
+
+  undo() {
+    this.checkpoint();
+
+    const undoStack = this._undoStack();
+    if (undoStack.length === 0 || !this.lastSnapshot) return;
+
+    const record = undoStack[undoStack.length - 1];
+    this._undoStack.set(undoStack.slice(0, -1));
+    this._redoStack.update(stack => [...stack, { ...record, snapshot: this.lastSnapshot! }]);
+
+    this.applySnapshot(record.snapshot);
+    this._historyChanged.next({ type: 'undo', entry: { label: record.label, timestamp: record.timestamp } });
+  }
+
+  redo() {
+    this.checkpoint();
+
+    const redoStack = this._redoStack();
+    if (redoStack.length === 0 || !this.lastSnapshot) return;
+
+    const record = redoStack[redoStack.length - 1];
+    this._redoStack.set(redoStack.slice(0, -1));
+    this._undoStack.update(stack => [...stack, { ...record, snapshot: this.lastSnapshot! }]);
+
+    this.applySnapshot(record.snapshot);
+    this._historyChanged.next({ type: 'redo', entry: { label: record.label, timestamp: record.timestamp } });
+  }
+
+  clear() {
+    this._undoStack.set([]);
+    this._redoStack.set([]);
+    this.lastSnapshot = this.takeSnapshot();
+    this._historyChanged.next({ type: 'clear' });
+  }
+
+  // ===== TRANSACTIONS =====
+
+  // Groups every change made inside the callback into a single history entry
+  transaction(fn: () => void, label?: string) {
+    this.beginTransaction(label);
+    try {
+      fn();
+    } finally {
+      this.endTransaction();
+    }
+  }
+
+  beginTransaction(label?: string) {
+    if (this.transactionDepth === 0) {
+      this.checkpoint();
+      this.transactionLabel = label;
+    }
+    this.transactionDepth++;
+  }
+
+  endTransaction() {
+    if (this.transactionDepth === 0) return;
+
+    this.transactionDepth--;
+    if (this.transactionDepth === 0) {
+      this.checkpoint(this.transactionLabel);
+      this.transactionLabel = undefined;
+    }
+  }
+
+  // Records any changes made since the last entry without waiting for the effect
+  checkpoint(label?: string) {
+    if (!this._config().enabled) return;
+    this.recordSnapshot(untracked(() => this.takeSnapshot()), label);
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  private recordSnapshot(snapshot: HistorySnapshot<T>, label?: string) {
+    if (this.restoring || this.transactionDepth > 0) return;
+
+    const previous = this.lastSnapshot;
+    this.lastSnapshot = snapshot;
+
+    if (!previous || this.isSameSnapshot(previous, snapshot)) return;
+
+    const maxHistory = this._config().maxHistory ?? 50;
+    const record: HistoryRecord<T> = { label, timestamp: Date.now(), snapshot: previous };
+
+    this._undoStack.update(stack => [...stack, record].slice(-maxHistory));
+    this._redoStack.set([]);
+    this._historyChanged.next({ type: 'record', entry: { label, timestamp: record.timestamp } });
+  }
+
+  private takeSnapshot(): HistorySnapshot<T> {
+    const trackData = this._config().trackData;
+
+    // Selection and paging are view state, not undoable changes
+    const { selection, pagination, ...grid } = JSON.parse(this.gridService.exportState());
+    const columns = this.columnService?.exportState();
+    const filtering = this.filteringService?.exportState();
+    const editing = trackData ? this.editingService?.exportState() : undefined;
+    const data = trackData ? this.gridService.data() : undefined;
+
+    return {
+      key: JSON.stringify({ grid, columns, filtering }),
+      grid,
+      columns,
+      filtering,
+      editing,
+      data
+    };
+  }
+
+  private isSameSnapshot(a: HistorySnapshot<T>, b: HistorySnapshot<T>): boolean {
+    return a.key === b.key &&
+      a.data === b.data &&
+      a.editing?.pendingChanges === b.editing?.pendingChanges;
+  }
+
+  private applySnapshot(snapshot: HistorySnapshot<T>) {
+    this.restoring = true;
+    try {
+      this.gridService.importState(JSON.stringify(snapshot.grid));
+      if (snapshot.columns) this.columnService?.importState(snapshot.columns);
+      if (snapshot.filtering) this.filteringService?.importState(snapshot.filtering);
+      if (snapshot.data) this.gridService.setData(snapshot.data);
+      if (snapshot.editing) this.editingService?.importState(snapshot.editing);
+    } finally {
+      this.restoring = false;
+    }
+
+    this.lastSnapshot = untracked(() => this.takeSnapshot());
+  }
+}
@@ -0,0 +1,99 @@
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { GridColumn } from '../interfaces/grid.interface';
+import { CellPosition } from '../interfaces/advanced-grid.interface';
+import { GridStateService } from './grid-state.service';
+import { CellSelectionService } from './cell-selection.service';
+
+// Active-cell model for keyboard navigation. Row index -1 is the header row;
+// data rows use their index in the processed rows, like cell range selection.
+@Injectable()
+export class GridNavigationService<T = any> {
+  private gridService = inject<GridStateService<T>>(GridStateService);
+  private selectionService = inject<CellSelectionService<T>>(CellSelectionService, { optional: true });
+
+  private _activeCell = signal<CellPosition | null>(null);
+  private _hasHeader = signal<boolean>(true);
+
+  columns = computed<GridColumn<T>[]>(() =>
+    this.selectionService
+      ? this.selectionService.columns()
+      : this.gridService.columns().filter(column => !column.hidden)
+  );
+
+  rowCount = computed(() => this.gridService.processedRows().length);
+  columnCount = computed(() => this.columns().length);
+
+  // Counts for aria-rowcount/aria-colcount, including the header row
+  ariaRowCount = computed(() => this.rowCount() + (this._hasHeader() ? 1 : 0));
+  ariaColCount = computed(() => this.columnCount());
+
+  activeCell = computed(() => this._activeCell());
+
+  // The single cell in the tab sequence: the active cell, or the first cell
+  tabStop = computed<CellPosition>(() =>
+    this.clamp(this._activeCell() ?? { rowIndex: this.minRowIndex(), columnIndex: 0 })
+  );
+
+  private minRowIndex = computed(() => this._hasHeader() ? -1 : 0);
+
+  setHasHeader(hasHeader: boolean) {
+    this._hasHeader.set(hasHeader);
+  }
+
+  // ===== ACTIVE CELL =====
+
+  setActiveCell(rowIndex: number, columnIndex: number) {
+    this._activeCell.set(this.clamp({ rowIndex, columnIndex }));
+  }
+
+  moveBy(rowDelta: number, columnDelta: number) {
+    const current = this.tabStop();
+    this.setActiveCell(current.rowIndex + rowDelta, current.columnIndex + columnDelta);
+  }
+
+  moveToRowStart() {
+    this.setActiveCell(this.tabStop().rowIndex, 0);
+  }
+
+  moveToRowEnd() {
+    this.setActiveCell(this.tabStop().rowIndex, this.columnCount() - 1);
+  }
+
+  moveToFirstCell() {
+    this.setActiveCell(this.minRowIndex(), 0);
+  }
+
+  moveToLastCell() {
+    this.setActiveCell(this.rowCount() - 1, this.columnCount() - 1);
+  }
+
+  isTabStop(rowIndex: number, columnIndex: number): boolean {
+    const tabStop = this.tabStop();
+    return tabStop.rowIndex === rowIndex && tabStop.columnIndex === columnIndex;
+  }
+
+  getColumnIndex(columnId: string): number {
+    return this.columns().findIndex(column => column.id === columnId);
+  }
+
+  // 1-based aria-rowindex for a row index, counting the header row
+  getAriaRowIndex(rowIndex: number): number {
+    return rowIndex + (this._hasHeader() ? 2 : 1);
+  }
+
+  reset() {
+    this._activeCell.set(null);
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  private clamp(position: CellPosition): CellPosition {
+    const maxRow = Math.max(this.rowCount() - 1, this.minRowIndex());
+    const maxColumn = Math.max(this.columnCount() - 1, 0);
+
+    return {
+      rowIndex: Math.max(this.minRowIndex(), Math.min(position.rowIndex, maxRow)),
+      columnIndex: Math.max(0, Math.min(position.columnIndex, maxColumn))
+    };
+  }
+}
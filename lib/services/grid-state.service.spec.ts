@@ -0,0 +1,109 @@
+import { DestroyRef } from '@angular/core';
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { Subject } from 'rxjs';
+import { DataSourceAdapter, DataSourceParams, DataSourceResult } from '../interfaces/advanced-grid.interface';
+import { GridStateService } from './grid-state.service';
+
+interface Row {
+  id: number;
+  name: string;
+}
+
+// Requests stay open until a test answers them; a request is cancelled once nothing observes it
+class ControlledAdapter implements DataSourceAdapter<Row> {
+  requests: { params: DataSourceParams; response: Subject<DataSourceResult<Row>> }[] = [];
+
+  load(params: DataSourceParams) {
+    const response = new Subject<DataSourceResult<Row>>();
+    this.requests.push({ params, response });
+    return response.asObservable();
+  }
+}
+
+describe('GridStateService (server-side mode)', () => {
+  let grid: GridStateService<Row>;
+  let adapter: ControlledAdapter;
+
+  const columns = [{ id: 'name', header: 'Name', sortable: true, filterable: true }];
+
+  beforeEach(() => {
+    grid = TestBed.runInInjectionContext(() => new GridStateService<Row>(TestBed.inject(DestroyRef)));
+    adapter = new ControlledAdapter();
+  });
+
+  function initialize() {
+    grid.initialize([], columns, { dataSourceAdapter: adapter, pageSize: 2, debounceMs: 300 });
+    TestBed.tick();
+  }
+
+  it('loads the first page at once and only once', fakeAsync(() => {
+    initialize();
+    expect(adapter.requests.map(r => r.params)).toEqual([{ page: 0, pageSize: 2 }]);
+
+    tick(1000);
+    TestBed.tick();
+    expect(adapter.requests.length).toBe(1);
+  }));
+
+  it('waits debounceMs after the last param change before loading', fakeAsync(() => {
+    initialize();
+
+    grid.sortBy('name', 'asc');
+    TestBed.tick();
+    tick(200);
+    grid.setFilter('name', 'a');
+    TestBed.tick();
+    tick(299);
+    expect(adapter.requests.length).toBe(1);
+
+    tick(1);
+    expect(adapter.requests.length).toBe(2);
+    expect(adapter.requests[1].params).toEqual(jasmine.objectContaining({
+      sort: [{ field: 'name', direction: 'asc' }],
+      filters: [{ columnId: 'name', operator: 'contains', value: 'a' }]
+    }));
+  }));
+
+  it('cancels the request in flight when the params change and ignores its late answer', fakeAsync(() => {
+    initialize();
+    const first = adapter.requests[0];
+
+    grid.sortBy('name', 'desc');
+    TestBed.tick();
+    tick(300);
+
+    const second = adapter.requests[1];
+    expect(first.response.observed).toBe(false);
+    expect(second.response.observed).toBe(true);
+
+    first.response.next({ data: [{ id: 1, name: 'stale' }], totalCount: 1 });
+    expect(grid.state().data).toEqual([]);
+
+    second.response.next({ data: [{ id: 2, name: 'b' }, { id: 3, name: 'a' }], totalCount: 5 });
+    expect(grid.state().data).toEqual([{ id: 2, name: 'b' }, { id: 3, name: 'a' }]);
+    expect(grid.state().pagination.totalPages).toBe(3);
+    expect(grid.state().loading).toBe(false);
+  }));
+
+  it('reloads at once on refresh() and cancels a debounced load', fakeAsync(() => {
+    initialize();
+
+    grid.sortBy('name', 'asc');
+    TestBed.tick();
+    grid.refresh();
+    expect(adapter.requests.length).toBe(2);
+    expect(adapter.requests[1].params.sort).toEqual([{ field: 'name', direction: 'asc' }]);
+
+    tick(300);
+    expect(adapter.requests.length).toBe(2);
+  }));
+
+  it('reports a failed load as the grid error', fakeAsync(() => {
+    initialize();
+
+    adapter.requests[0].response.error(new Error('Service unavailable'));
+
+    expect(grid.state().error).toBe('Service unavailable');
+    expect(grid.state().loading).toBe(false);
+  }));
+});
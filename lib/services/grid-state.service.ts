@@ -1,14 +1,29 @@
-import { Injectable, signal, computed, effect, DestroyRef } from '@angular/core';
+import { Injectable, signal, computed, effect, untracked, DestroyRef } from '@angular/core';
+import { EMPTY, Observable, Subject, Subscription, catchError, defer, finalize, switchMap, tap, timer } from 'rxjs';
 import { 
   GridColumn, 
   GridRow, 
+  GridGroupRow,
+  GridGrouping,
+  GridAggregates,
+  GridAggregateSummary,
+  GridCustomAggregate,
+  GridAggregateFunction,
+  GridDetailState,
   GridSort, 
   GridFilter, 
   GridPagination, 
+  GridPageInfo,
   GridSelection, 
+  GridPinnedRows,
   GridState, 
-  GridOptions 
+  GridOptions,
+  GridTreeDataConfig,
+  isGroupRow
 } from '../interfaces/grid.interface';
+import { DataSourceParams, DataSourceResult, PivotConfig, PivotResult } from '../interfaces/advanced-grid.interface';
+import { PivotEngine } from './pivot.service';
+import { aggregateValues, compareCellValues, getCellValue } from '../utils/grid.utils';
 
 @Injectable()
 export class GridStateService<T = any> {
@@ -30,13 +45,73 @@ export class GridStateService<T = any> {
     selectAll: false,
     indeterminate: false
   });
+  private _grouping = signal<GridGrouping>({
+    columnIds: [],
+    expanded: {}
+  });
+  private _expandedRows = signal<Record<string, boolean>>({});
+  // Open detail panels, kept apart from tree expansion so tree nodes never load details
+  private _detailRows = signal<Record<string, boolean>>({});
+  private _detailStates = signal<Record<string, GridDetailState>>({});
+  private detailSubscriptions = new Map<string, Subscription>();
+  private _serverAggregates = signal<GridAggregates | null>(null);
+  private _pivotConfig = signal<PivotConfig<T> | null>(null);
+  private _pinnedRows = signal<GridPinnedRows>({ top: [], bottom: [] });
+  private pivotEngine = new PivotEngine<T>();
   private _loading = signal<boolean>(false);
   private _error = signal<string | null>(null);
   private _options = signal<GridOptions<T>>({});
+  private loadRequests = new Subject<{ params: DataSourceParams; debounce: boolean }>();
+  private requestedServerParams: string | null = null;
+
+  data = computed(() => this._data());
+  columns = computed(() => this.activeColumns());
+  pivotConfig = computed(() => this._pivotConfig());
+  isVirtualized = computed(() => !!this._options().enableVirtualization);
+  isServerSide = computed(() => !!this._options().dataSourceAdapter);
+  loading = computed(() => this._loading());
+  error = computed(() => this._error());
+
+  // Params for the data source in server-side mode. Compared by value so that recording
+  // a result's totals and cursors does not request the same page again
+  private serverParams = computed<DataSourceParams | null>(
+    () => this.isServerSide() ? this.buildServerParams() : null,
+    { equal: (a, b) => JSON.stringify(a) === JSON.stringify(b) }
+  );
+
+  // Computed pivot output (generated columns, column groups and rows)
+  pivotResult = computed<PivotResult | null>(() => {
+    const config = this._pivotConfig();
+    return config ? this.pivotEngine.compute(this._data(), this._columns(), config) : null;
+  });
+
+  // Source columns, or the generated pivot columns while pivoting
+  private activeColumns = computed<GridColumn<T>[]>(() => {
+    const pivot = this.pivotResult();
+    return pivot ? pivot.columns as GridColumn<any>[] : this._columns();
+  });
+
+  // Pivot subtotals are rendered as a tree so their children sort as siblings
+  private treeConfig = computed<GridTreeDataConfig<T> | undefined>(() => {
+    const pivot = this._pivotConfig();
+    if (pivot) {
+      return pivot.subtotals
+        ? { parentIdField: '__parentId', expandedByDefault: true }
+        : undefined;
+    }
+    return this._options().treeData;
+  });
 
   // Computed rows with transformations
   rows = computed(() => {
-    const data = this._data();
+    const pivot = this.pivotResult();
+    const data = pivot ? pivot.data as T[] : this._data();
+    const treeData = this.treeConfig();
+
+    if (treeData) {
+      return this.flattenTree(data);
+    }
+
     return data.map((item, index) => ({
       id: this.getRowId(item, index),
       data: item,
@@ -47,9 +122,21 @@ export class GridStateService<T = any> {
     } as GridRow<T>));
   });
 
-  // Computed processed rows (filtered, sorted, paginated)
-  processedRows = computed(() => {
+  // Pinned rows in pin order, unaffected by sorting, filtering and pagination
+  pinnedTopRows = computed(() => this.resolvePinnedRows(this._pinnedRows().top));
+  pinnedBottomRows = computed(() => this.resolvePinnedRows(this._pinnedRows().bottom));
+
+  private pinnedRowIds = computed(() => {
+    const pinned = this._pinnedRows();
+    return new Set<string | number>([...pinned.top, ...pinned.bottom]);
+  });
+
+  // Computed filtered and sorted rows, before grouping and pagination
+  private sortedRows = computed(() => {
     let rows = this.rows();
+
+    // The data source has already filtered and sorted them
+    if (this.isServerSide()) return rows;
     
     // Apply filters
     rows = this.applyFilters(rows);
@@ -57,25 +144,92 @@ export class GridStateService<T = any> {
     // Apply sorting
     rows = this.applySorting(rows);
     
-    // Update pagination totals
-    this.updatePaginationTotals(rows.length);
-    
-    // Apply pagination
-    rows = this.applyPagination(rows);
-    
     return rows;
   });
 
+  // Computed grouped rows (group headers interleaved with visible children),
+  // or the visible tree nodes when tree data mode is enabled
+  private groupedRows = computed(() => {
+    const rows = this.sortedRows();
+    return this.treeConfig() 
+      ? this.applyTreeExpansion(rows) 
+      : this.applyGrouping(rows);
+  });
+
+  // Computed body rows (grouped rows without the pinned ones), before pagination
+  private bodyRows = computed(() => {
+    const rows = this.groupedRows();
+
+    // Pinned rows are rendered separately from the body
+    const pinnedIds = this.pinnedRowIds();
+    return pinnedIds.size > 0 ? rows.filter(row => !pinnedIds.has(row.id)) : rows;
+  });
+
+  // Computed pagination with totals; in cursor and server-side mode the totals come from the data source
+  pagination = computed<GridPagination>(() => {
+    const pagination = this._pagination();
+    if (pagination.mode === 'cursor' || this.isServerSide()) return pagination;
+
+    const totalItems = this.bodyRows().length;
+    return {
+      ...pagination,
+      totalItems,
+      totalPages: Math.ceil(totalItems / pagination.pageSize)
+    };
+  });
+
+  // Computed processed rows (filtered, sorted, grouped, paginated)
+  processedRows = computed(() => this.applyPagination(this.bodyRows()));
+
+  // Computed aggregates for all filtered rows, the current page and each group
+  aggregates = computed<GridAggregateSummary>(() => {
+    const groups: Record<string, GridAggregates> = {};
+    this.groupedRows().forEach(row => {
+      if (isGroupRow(row)) {
+        groups[row.id as string] = row.aggregates;
+      }
+    });
+
+    return {
+      total: this._serverAggregates() ?? this.computeAggregates(this.sortedRows()),
+      page: this.computeAggregates(this.processedRows().filter(row => !isGroupRow(row))),
+      groups
+    };
+  });
+
+  // Extra height of open detail panels, keyed by index in processedRows
+  detailRowHeights = computed<Record<number, number>>(() => {
+    const masterDetail = this._options().masterDetail;
+    const heights: Record<number, number> = {};
+    if (!masterDetail) return heights;
+
+    const detailRows = this._detailRows();
+    this.processedRows().forEach((row, index) => {
+      if (detailRows[String(row.id)] && !isGroupRow(row)) {
+        heights[index] = masterDetail.detailHeight ?? 200;
+      }
+    });
+    return heights;
+  });
+
+  detailStates = computed(() => this._detailStates());
+
   // Computed state
   state = computed<GridState<T>>(() => ({
     data: this._data(),
-    columns: this._columns(),
+    columns: this.activeColumns(),
     rows: this.rows(),
     processedRows: this.processedRows(),
+    pinnedTopRows: this.pinnedTopRows(),
+    pinnedBottomRows: this.pinnedBottomRows(),
     sort: this._sort(),
     filters: this._filters(),
-    pagination: this._pagination(),
+    pagination: this.pagination(),
     selection: this._selection(),
+    grouping: this._grouping(),
+    expandedRows: this._expandedRows(),
+    detailRows: this._detailRows(),
+    aggregates: this.aggregates(),
     loading: this._loading(),
     error: this._error()
   }));
@@ -89,6 +243,34 @@ export class GridStateService<T = any> {
         localStorage.setItem(options.stateKey, state);
       }
     });
+
+    // Server-side mode: a change of params cancels the request in flight and loads after debounceMs.
+    // Params already requested by refresh() are skipped so the first load is not delayed.
+    effect(() => {
+      const params = this.serverParams();
+      untracked(() => {
+        const key = params ? JSON.stringify(params) : null;
+        if (key === this.requestedServerParams) return;
+
+        this.requestedServerParams = key;
+        if (params) {
+          this.loadRequests.next({ params, debounce: true });
+        }
+      });
+    });
+
+    const loadSubscription = this.loadRequests.pipe(
+      switchMap(({ params, debounce }) => debounce
+        ? timer(this._options().debounceMs ?? 300).pipe(switchMap(() => this.loadFromDataSource(params)))
+        : this.loadFromDataSource(params)
+      )
+    ).subscribe();
+
+    this.destroyRef.onDestroy(() => {
+      loadSubscription.unsubscribe();
+      this.detailSubscriptions.forEach(subscription => subscription.unsubscribe());
+      this.detailSubscriptions.clear();
+    });
   }
 
   initialize(data: T[], columns: GridColumn<T>[], options: GridOptions<T> = {}) {
@@ -111,7 +293,8 @@ export class GridStateService<T = any> {
     this._pagination.update(p => ({
       ...p,
       pageSize: options.pageSize || 10,
-      pageSizeOptions: options.pageSizeOptions || [10, 25, 50, 100]
+      pageSizeOptions: options.pageSizeOptions || [10, 25, 50, 100],
+      mode: options.paginationMode || 'offset'
     }));
 
     // Set selection mode
@@ -120,6 +303,11 @@ export class GridStateService<T = any> {
       mode: options.selectionMode || 'none'
     }));
 
+    // Set initial grouping
+    if (options.groupBy) {
+      this._grouping.update(g => ({ ...g, columnIds: [...options.groupBy!] }));
+    }
+
     // Load persisted state if available
     if (options.persistState && options.stateKey) {
       const savedState = localStorage.getItem(options.stateKey);
@@ -127,6 +315,11 @@ export class GridStateService<T = any> {
         this.importState(savedState);
       }
     }
+
+    // The adapter may have changed even if the params have not
+    if (options.dataSourceAdapter) {
+      this.refresh();
+    }
   }
 
   // Sorting methods
@@ -156,6 +349,11 @@ export class GridStateService<T = any> {
         return [{ columnId, direction: newDirection }];
       }
     });
+
+    // Cursors belong to one sort order
+    if (this._pagination().mode === 'cursor') {
+      this.resetPage();
+    }
   }
 
   clearSort(columnId?: string) {
@@ -166,6 +364,10 @@ export class GridStateService<T = any> {
         return [];
       }
     });
+
+    if (this._pagination().mode === 'cursor') {
+      this.resetPage();
+    }
   }
 
   getSortDirection(columnId: string): 'asc' | 'desc' | null {
@@ -196,7 +398,7 @@ export class GridStateService<T = any> {
     });
 
     // Reset to first page when filtering
-    this._pagination.update(p => ({ ...p, currentPage: 1 }));
+    this.resetPage();
   }
 
   clearFilter(columnId?: string) {
@@ -215,18 +417,106 @@ export class GridStateService<T = any> {
   }
 
   // Pagination methods
+  // In cursor mode only the first page and the pages either side of the current one are reachable
   setPage(page: number) {
-    const pagination = this._pagination();
+    const pagination = this.pagination();
+
+    if (pagination.mode === 'cursor') {
+      if (page === pagination.currentPage + 1) {
+        this.nextPage();
+      } else if (page === pagination.currentPage - 1) {
+        this.previousPage();
+      } else if (page === 1) {
+        this.firstPage();
+      }
+      return;
+    }
+
     if (page >= 1 && page <= pagination.totalPages) {
       this._pagination.update(p => ({ ...p, currentPage: page }));
     }
   }
 
   setPageSize(size: number) {
+    this._pagination.update(p => ({ ...p, pageSize: size }));
+    this.resetPage();
+  }
+
+  nextPage() {
+    const pagination = this.pagination();
+
+    if (pagination.mode === 'cursor') {
+      if (!pagination.hasNext || !pagination.endCursor) return;
+      this._pagination.update(p => ({
+        ...p,
+        currentPage: p.currentPage + 1,
+        after: p.endCursor,
+        before: null
+      }));
+      return;
+    }
+
+    this.setPage(pagination.currentPage + 1);
+  }
+
+  previousPage() {
+    const pagination = this.pagination();
+
+    if (pagination.mode === 'cursor') {
+      if (!pagination.hasPrevious || !pagination.startCursor) return;
+      this._pagination.update(p => ({
+        ...p,
+        currentPage: Math.max(1, p.currentPage - 1),
+        after: null,
+        before: p.startCursor
+      }));
+      return;
+    }
+
+    this.setPage(pagination.currentPage - 1);
+  }
+
+  firstPage() {
+    if (this._pagination().mode === 'cursor') {
+      this.resetPage();
+    } else {
+      this.setPage(1);
+    }
+  }
+
+  // Cursor pages have no known last page, so this does nothing in cursor mode
+  lastPage() {
+    const pagination = this.pagination();
+    if (pagination.mode !== 'cursor') {
+      this.setPage(pagination.totalPages);
+    }
+  }
+
+  canGoToPage(page: number): boolean {
+    const pagination = this.pagination();
+    if (page === pagination.currentPage) return false;
+
+    if (pagination.mode === 'cursor') {
+      if (page === pagination.currentPage + 1) return !!pagination.hasNext;
+      if (page === pagination.currentPage - 1) return !!pagination.hasPrevious;
+      return page === 1;
+    }
+
+    return page >= 1 && page <= pagination.totalPages;
+  }
+
+  // Records the cursors and flags of the page that was loaded for the current cursor
+  setPageInfo(info: GridPageInfo) {
     this._pagination.update(p => ({
       ...p,
-      pageSize: size,
-      currentPage: 1 // Reset to first page
+      startCursor: info.startCursor ?? null,
+      endCursor: info.endCursor ?? null,
+      hasNext: !!info.hasNext,
+      hasPrevious: !!info.hasPrevious,
+      // Without rows before it this is the first page, whichever way it was reached
+      currentPage: info.hasPrevious === false ? 1 : p.currentPage,
+      totalItems: info.totalItems ?? p.totalItems,
+      totalPages: info.totalItems !== undefined ? Math.ceil(info.totalItems / p.pageSize) : p.totalPages
     }));
   }
 
@@ -310,8 +600,202 @@ export class GridStateService<T = any> {
     }));
   }
 
+  // Grouping methods
+  groupBy(columnIds: string | string[]) {
+    const ids = Array.isArray(columnIds) ? columnIds : [columnIds];
+
+    this._grouping.update(grouping => ({
+      ...grouping,
+      columnIds: [
+        ...grouping.columnIds,
+        ...ids.filter(id => !grouping.columnIds.includes(id))
+      ]
+    }));
+
+    // Reset to first page when grouping changes
+    this.resetPage();
+  }
+
+  ungroup(columnId?: string) {
+    this._grouping.update(grouping => {
+      if (columnId) {
+        return {
+          ...grouping,
+          columnIds: grouping.columnIds.filter(id => id !== columnId)
+        };
+      } else {
+        return { columnIds: [], expanded: {} };
+      }
+    });
+
+    this.resetPage();
+  }
+
+  toggleGroup(groupId: string) {
+    const expanded = this.isGroupExpanded(groupId);
+    this._grouping.update(grouping => ({
+      ...grouping,
+      expanded: { ...grouping.expanded, [groupId]: !expanded }
+    }));
+  }
+
+  isGroupExpanded(groupId: string): boolean {
+    const expanded = this._grouping().expanded[groupId];
+    return expanded ?? this._options().groupsExpandedByDefault !== false;
+  }
+
+  // Row expansion methods
+  expandRow(rowId: string | number) {
+    this._detailRows.update(rows => ({ ...rows, [String(rowId)]: true }));
+    this.loadDetail(rowId);
+  }
+
+  collapseRow(rowId: string | number) {
+    this._detailRows.update(rows => ({ ...rows, [String(rowId)]: false }));
+  }
+
+  toggleRowExpansion(rowId: string | number) {
+    if (this.isDetailExpanded(rowId)) {
+      this.collapseRow(rowId);
+    } else {
+      this.expandRow(rowId);
+    }
+  }
+
+  isDetailExpanded(rowId: string | number): boolean {
+    return this._detailRows()[String(rowId)] === true;
+  }
+
+  getDetailState(rowId: string | number): GridDetailState | null {
+    return this._detailStates()[String(rowId)] ?? null;
+  }
+
+  reloadDetail(rowId: string | number) {
+    this.loadDetail(rowId, true);
+  }
+
+  // Tree data methods
+  toggleTreeNode(rowId: string | number) {
+    const expanded = this.isRowExpanded(rowId);
+    this._expandedRows.update(rows => ({ ...rows, [String(rowId)]: !expanded }));
+  }
+
+  expandAll() {
+    this.setAllTreeNodesExpanded(true);
+  }
+
+  collapseAll() {
+    this.setAllTreeNodesExpanded(false);
+  }
+
+  isRowExpanded(rowId: string | number): boolean {
+    const expanded = this._expandedRows()[String(rowId)];
+    return expanded ?? this.treeConfig()?.expandedByDefault === true;
+  }
+
+  // Aggregation methods
+  setAggregates(aggregates: GridAggregates | null) {
+    // Totals supplied by a data source take precedence over local computation
+    this._serverAggregates.set(aggregates);
+  }
+
+  getAggregate(columnId: string, fn: string, scope: 'total' | 'page' = 'total'): any {
+    return this.aggregates()[scope][columnId]?.[fn] ?? null;
+  }
+
+  // Row pinning methods
+  pinRow(rowId: string | number, position: 'top' | 'bottom') {
+    this._pinnedRows.update(pinned => {
+      const top = pinned.top.filter(id => id !== rowId);
+      const bottom = pinned.bottom.filter(id => id !== rowId);
+      return position === 'top'
+        ? { top: [...top, rowId], bottom }
+        : { top, bottom: [...bottom, rowId] };
+    });
+  }
+
+  unpinRow(rowId: string | number) {
+    this._pinnedRows.update(pinned => ({
+      top: pinned.top.filter(id => id !== rowId),
+      bottom: pinned.bottom.filter(id => id !== rowId)
+    }));
+  }
+
+  getRowPinPosition(rowId: string | number): 'top' | 'bottom' | null {
+    const pinned = this._pinnedRows();
+    if (pinned.top.includes(rowId)) return 'top';
+    if (pinned.bottom.includes(rowId)) return 'bottom';
+    return null;
+  }
+
+  // Pivot methods
+  setPivot(config: PivotConfig<T> | null) {
+    this._pivotConfig.set(config);
+
+    // Generated columns and rows replace the source ones, so reset view state
+    this._sort.set([]);
+    this._filters.set([]);
+    this._grouping.update(g => ({ ...g, columnIds: [] }));
+    this.resetPage();
+  }
+
+  // Data mutation methods
+  setData(data: T[]) {
+    this._data.set(data);
+  }
+
+  getRow(rowId: string | number): GridRow<T> | undefined {
+    return this.rows().find(row => row.id === rowId);
+  }
+
+  updateRow(rowId: string | number, data: T) {
+    const row = this.getRow(rowId);
+    if (!row) return;
+
+    const dataIndex = this._data().indexOf(row.data);
+    if (dataIndex >= 0) {
+      this._data.update(items => items.map((item, i) => i === dataIndex ? data : item));
+    } else {
+      // Nested tree children are not part of the top-level data array
+      this._data.update(items => this.replaceTreeItem(items, row.data, data));
+    }
+  }
+
+  addRow(data: T, index?: number) {
+    this._data.update(items => {
+      const newItems = [...items];
+      if (index !== undefined && index >= 0 && index <= newItems.length) {
+        newItems.splice(index, 0, data);
+      } else {
+        newItems.push(data);
+      }
+      return newItems;
+    });
+  }
+
+  removeRow(rowId: string | number): T | null {
+    const row = this.getRow(rowId);
+    if (!row) return null;
+
+    this._data.update(items => items.filter(item => item !== row.data));
+    this._selection.update(selection => ({
+      ...selection,
+      selectedIds: selection.selectedIds.filter(id => id !== rowId),
+      selectedRows: selection.selectedRows.filter(r => r.id !== rowId)
+    }));
+    return row.data;
+  }
+
   // Utility methods
   refresh() {
+    // Server-side grids request the current page again, without waiting for debounceMs
+    const params = this.serverParams();
+    if (params) {
+      this.requestedServerParams = JSON.stringify(params);
+      this.loadRequests.next({ params, debounce: false });
+      return;
+    }
+
     // Force recomputation by updating a signal
     this._data.update(data => [...data]);
   }
@@ -321,7 +805,12 @@ export class GridStateService<T = any> {
       sort: this._sort(),
       filters: this._filters(),
       pagination: this._pagination(),
-      selection: this._selection()
+      selection: this._selection(),
+      grouping: this._grouping(),
+      expandedRows: this._expandedRows(),
+      detailRows: this._detailRows(),
+      pivot: this._pivotConfig(),
+      pinnedRows: this._pinnedRows()
     };
     return JSON.stringify(exportData);
   }
@@ -333,12 +822,56 @@ export class GridStateService<T = any> {
       if (state.filters) this._filters.set(state.filters);
       if (state.pagination) this._pagination.set(state.pagination);
       if (state.selection) this._selection.set(state.selection);
+      if (state.grouping) this._grouping.set(state.grouping);
+      if (state.pivot !== undefined) this._pivotConfig.set(this.restorePivotConfig(state.pivot));
+      if (state.pinnedRows) this._pinnedRows.set(state.pinnedRows);
+      if (state.expandedRows) this._expandedRows.set(state.expandedRows);
+      if (state.detailRows) {
+        this._detailRows.set(state.detailRows);
+        // Panels whose details are already loaded or loading are left as they are
+        Object.keys(state.detailRows)
+          .filter(key => state.detailRows[key])
+          .forEach(key => this.loadDetail(key));
+      }
     } catch (error) {
       console.error('Failed to import grid state:', error);
     }
   }
 
   // Private helper methods
+
+  // JSON keeps only the name of a custom aggregate; its reducer is looked up in the live pivot
+  // config and the column definitions, and values whose reducer cannot be found are dropped
+  private restorePivotConfig(config: PivotConfig<T> | null): PivotConfig<T> | null {
+    if (!config) return config;
+
+    const customAggregates = new Map<string, GridCustomAggregate<T>>();
+    const register = (aggregate: GridAggregateFunction | GridCustomAggregate<T>) => {
+      if (typeof aggregate !== 'string' && typeof aggregate.reducer === 'function') {
+        customAggregates.set(aggregate.name, aggregate);
+      }
+    };
+    this._columns().forEach(column => {
+      const aggregates = column.aggregate ? (Array.isArray(column.aggregate) ? column.aggregate : [column.aggregate]) : [];
+      aggregates.forEach(register);
+    });
+    this._pivotConfig()?.values.forEach(value => register(value.aggregate));
+
+    const values = config.values
+      .map(value => {
+        if (typeof value.aggregate === 'string') return value;
+        const aggregate = customAggregates.get(value.aggregate.name);
+        if (!aggregate) {
+          console.warn(`Pivot aggregate '${value.aggregate.name}' has no reducer and was skipped`);
+          return null;
+        }
+        return { ...value, aggregate };
+      })
+      .filter((value): value is PivotConfig<T>['values'][number] => value !== null);
+
+    return { ...config, values };
+  }
+
   private getRowId(item: T, index: number): string | number {
     // Try to find an id field, otherwise use index
     if (typeof item === 'object' && item !== null) {
@@ -348,64 +881,372 @@ export class GridStateService<T = any> {
     return index;
   }
 
+  private resolvePinnedRows(ids: (string | number)[]): GridRow<T>[] {
+    if (ids.length === 0) return [];
+
+    const rowsById = new Map(this.rows().map(row => [row.id, row]));
+    return ids
+      .map(id => rowsById.get(id))
+      .filter((row): row is GridRow<T> => !!row);
+  }
+
   private applyFilters(rows: GridRow<T>[]): GridRow<T>[] {
     const filters = this._filters();
-    const columns = this._columns();
+    const columns = this.activeColumns();
     
     if (filters.length === 0) return rows;
 
-    return rows.filter(row => {
-      return filters.every(filter => {
-        const column = columns.find(c => c.id === filter.columnId);
-        if (!column) return true;
+    const matches = rows.filter(row => this.rowMatchesFilters(row, filters, columns));
 
-        const value = this.getCellValue(row.data, column);
-        
-        // Use custom filter function if provided
-        if (column.filterFn) {
-          return column.filterFn(value, filter.value);
-        }
+    if (!this.treeConfig()) return matches;
 
-        // Default filtering logic
-        return this.defaultFilter(value, filter.value, filter.operator || 'contains');
-      });
+    // Keep the ancestors of matching nodes so the matches stay reachable
+    const rowsById = new Map(rows.map(row => [row.id, row]));
+    const keep = new Set<string | number>();
+    matches.forEach(row => {
+      let current: GridRow<T> | undefined = row;
+      while (current && !keep.has(current.id)) {
+        keep.add(current.id);
+        current = current.parentId != null ? rowsById.get(current.parentId) : undefined;
+      }
+    });
+
+    return rows.filter(row => keep.has(row.id));
+  }
+
+  private rowMatchesFilters(row: GridRow<T>, filters: GridFilter[], columns: GridColumn<T>[]): boolean {
+    return filters.every(filter => {
+      const column = columns.find(c => c.id === filter.columnId);
+      if (!column) return true;
+
+      const value = getCellValue(row.data, column);
+      
+      // Use custom filter function if provided
+      if (column.filterFn) {
+        return column.filterFn(value, filter.value);
+      }
+
+      // Default filtering logic
+      return this.defaultFilter(value, filter.value, filter.operator || 'contains');
     });
   }
 
   private applySorting(rows: GridRow<T>[]): GridRow<T>[] {
     const sorts = this._sort();
-    const columns = this._columns();
+    const columns = this.activeColumns();
     
     if (sorts.length === 0) return rows;
 
-    return [...rows].sort((a, b) => {
-      for (const sort of sorts) {
-        const column = columns.find(c => c.id === sort.columnId);
-        if (!column) continue;
+    const compare = (a: GridRow<T>, b: GridRow<T>) => this.compareRows(a, b, sorts, columns);
 
-        const aValue = this.getCellValue(a.data, column);
-        const bValue = this.getCellValue(b.data, column);
+    if (!this.treeConfig()) {
+      return [...rows].sort(compare);
+    }
 
-        let comparison = 0;
-        
-        // Use custom sort function if provided
-        if (column.sortCompareFn) {
-          comparison = column.sortCompareFn(aValue, bValue);
-        } else {
-          comparison = this.defaultSort(aValue, bValue);
-        }
+    // In tree mode only siblings are reordered
+    const childrenByParent = new Map<string | number | null, GridRow<T>[]>();
+    const ids = new Set(rows.map(row => row.id));
+    rows.forEach(row => {
+      const parentId = row.parentId != null && ids.has(row.parentId) ? row.parentId : null;
+      const siblings = childrenByParent.get(parentId);
+      if (siblings) {
+        siblings.push(row);
+      } else {
+        childrenByParent.set(parentId, [row]);
+      }
+    });
 
-        if (comparison !== 0) {
-          return sort.direction === 'asc' ? comparison : -comparison;
-        }
+    const result: GridRow<T>[] = [];
+    const visit = (parentId: string | number | null) => {
+      const siblings = childrenByParent.get(parentId) || [];
+      [...siblings].sort(compare).forEach(row => {
+        result.push(row);
+        visit(row.id);
+      });
+    };
+    visit(null);
+
+    return result;
+  }
+
+  private compareRows(a: GridRow<T>, b: GridRow<T>, sorts: GridSort[], columns: GridColumn<T>[]): number {
+    for (const sort of sorts) {
+      const column = columns.find(c => c.id === sort.columnId);
+      if (!column) continue;
+
+      const aValue = getCellValue(a.data, column);
+      const bValue = getCellValue(b.data, column);
+
+      let comparison = 0;
+      
+      // Use custom sort function if provided
+      if (column.sortCompareFn) {
+        comparison = column.sortCompareFn(aValue, bValue);
+      } else {
+        comparison = compareCellValues(aValue, bValue);
+      }
+
+      if (comparison !== 0) {
+        return sort.direction === 'asc' ? comparison : -comparison;
+      }
+    }
+    return 0;
+  }
+
+  private flattenTree(data: T[]): GridRow<T>[] {
+    const treeData = this.treeConfig()!;
+    const selectedIds = this._selection().selectedIds;
+    const result: GridRow<T>[] = [];
+
+    const pushNode = (item: T, id: string | number, depth: number, parentId: string | number | null, hasChildren: boolean) => {
+      const row: GridRow<T> = {
+        id,
+        data: item,
+        index: result.length,
+        depth,
+        parentId,
+        hasChildren,
+        selected: selectedIds.includes(id),
+        expanded: hasChildren && this.isRowExpanded(id),
+        disabled: false
+      };
+      result.push(row);
+    };
+
+    if (treeData.getChildren) {
+      const visit = (items: T[], depth: number, parentId: string | number | null) => {
+        items.forEach(item => {
+          const children = treeData.getChildren!(item) || [];
+          const id = this.getRowId(item, result.length);
+          pushNode(item, id, depth, parentId, children.length > 0);
+          visit(children, depth + 1, id);
+        });
+      };
+      visit(data, 0, null);
+      return result;
+    }
+
+    // Build the hierarchy from a flat list using the parent id field
+    const field = treeData.parentIdField || 'parentId';
+    const itemIds = new Map<T, string | number>();
+    data.forEach((item, index) => itemIds.set(item, this.getRowId(item, index)));
+    const ids = new Set(itemIds.values());
+    const childrenByParent = new Map<string | number | null, T[]>();
+    data.forEach(item => {
+      const rawParentId = (item as any)[field];
+      const parentId = rawParentId != null && ids.has(rawParentId) ? rawParentId : null;
+      const siblings = childrenByParent.get(parentId);
+      if (siblings) {
+        siblings.push(item);
+      } else {
+        childrenByParent.set(parentId, [item]);
+      }
+    });
+
+    const visit = (parentId: string | number | null, depth: number) => {
+      (childrenByParent.get(parentId) || []).forEach(item => {
+        const id = itemIds.get(item)!;
+        pushNode(item, id, depth, parentId, childrenByParent.has(id));
+        visit(id, depth + 1);
+      });
+    };
+    visit(null, 0);
+
+    return result;
+  }
+
+  // Copies each ancestor of target, replacing the children property that getChildren reads
+  private replaceTreeItem(items: T[], target: T, replacement: T): T[] {
+    const getChildren = this._options().treeData?.getChildren;
+    if (!getChildren) return items;
+
+    let changed = false;
+    const result = items.map(item => {
+      if (item === target) {
+        changed = true;
+        return replacement;
+      }
+
+      const children = getChildren(item);
+      if (!children || children.length === 0) return item;
+
+      const updatedChildren = this.replaceTreeItem(children, target, replacement);
+      if (updatedChildren === children) return item;
+
+      const key = Object.keys(item as any).find(k => (item as any)[k] === children);
+      if (!key) {
+        console.warn('Cannot update a nested row whose children are not a property of its parent');
+        return item;
+      }
+      changed = true;
+      return { ...item, [key]: updatedChildren };
+    });
+
+    return changed ? result : items;
+  }
+
+  private applyTreeExpansion(rows: GridRow<T>[]): GridRow<T>[] {
+    // While filtering, ancestors of matches are shown expanded
+    const forceExpanded = this._filters().length > 0;
+    const result: GridRow<T>[] = [];
+    let hiddenBelowDepth = Infinity;
+
+    rows.forEach(row => {
+      const depth = row.depth || 0;
+      if (depth > hiddenBelowDepth) return;
+
+      hiddenBelowDepth = Infinity;
+      const expanded = forceExpanded || !!row.expanded;
+      if (row.hasChildren && !expanded) {
+        hiddenBelowDepth = depth;
+      }
+
+      result.push(forceExpanded && row.hasChildren ? { ...row, expanded: true } : row);
+    });
+
+    return result;
+  }
+
+  private loadDetail(rowId: string | number, force = false) {
+    const masterDetail = this._options().masterDetail;
+    if (!masterDetail) return;
+
+    const key = String(rowId);
+    const existing = this._detailStates()[key];
+    if (!force && existing && (existing.loading || existing.data !== null)) return;
+
+    const row = this.rows().find(r => String(r.id) === key);
+    if (!row) return;
+
+    this.detailSubscriptions.get(key)?.unsubscribe();
+    this.setDetailState(key, { loading: true, error: null, data: existing?.data ?? null });
+
+    const subscription = masterDetail.loadDetail(row.data).subscribe({
+      next: data => this.setDetailState(key, { loading: false, error: null, data }),
+      error: error => {
+        this.setDetailState(key, {
+          loading: false,
+          error: error instanceof Error ? error.message : String(error),
+          data: null
+        });
+        this.detailSubscriptions.delete(key);
+      },
+      complete: () => this.detailSubscriptions.delete(key)
+    });
+
+    if (!subscription.closed) {
+      this.detailSubscriptions.set(key, subscription);
+    }
+  }
+
+  private setDetailState(key: string, state: GridDetailState) {
+    this._detailStates.update(states => ({ ...states, [key]: state }));
+  }
+
+  private setAllTreeNodesExpanded(expanded: boolean) {
+    const expandedRows: Record<string, boolean> = {};
+    this.rows().forEach(row => {
+      if (row.hasChildren) {
+        expandedRows[String(row.id)] = expanded;
+      }
+    });
+    this._expandedRows.set(expandedRows);
+  }
+
+  private applyGrouping(rows: GridRow<T>[]): GridRow<T>[] {
+    const columnIds = this._grouping().columnIds;
+    const columns = this.activeColumns();
+    const groupColumns = columnIds
+      .map(id => columns.find(c => c.id === id))
+      .filter(Boolean) as GridColumn<T>[];
+
+    if (groupColumns.length === 0) return rows;
+
+    return this.buildGroupRows(rows, groupColumns, 0, '');
+  }
+
+  private buildGroupRows(
+    rows: GridRow<T>[], 
+    groupColumns: GridColumn<T>[], 
+    depth: number, 
+    parentId: string
+  ): GridRow<T>[] {
+    if (depth >= groupColumns.length) {
+      return rows.map(row => ({ ...row, type: 'data', depth } as GridRow<T>));
+    }
+
+    const column = groupColumns[depth];
+
+    // Bucket rows by key, preserving the order in which keys first appear
+    const buckets = new Map<any, GridRow<T>[]>();
+    rows.forEach(row => {
+      const key = getCellValue(row.data, column);
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(row);
+      } else {
+        buckets.set(key, [row]);
+      }
+    });
+
+    const result: GridRow<T>[] = [];
+    let groupIndex = 0;
+    buckets.forEach((leafRows, key) => {
+      const groupId = `${parentId}${parentId ? '|' : ''}${column.id}:${String(key)}`;
+      const expanded = this.isGroupExpanded(groupId);
+
+      const groupRow: GridGroupRow<T> = {
+        id: groupId,
+        type: 'group',
+        data: { [column.id]: key } as T,
+        index: groupIndex++,
+        groupKey: key,
+        groupColumnId: column.id,
+        depth,
+        childCount: leafRows.length,
+        leafRows,
+        aggregates: this.computeAggregates(leafRows),
+        expanded,
+        selected: leafRows.length > 0 && leafRows.every(row => row.selected),
+        disabled: false
+      };
+
+      result.push(groupRow);
+      if (expanded) {
+        result.push(...this.buildGroupRows(leafRows, groupColumns, depth + 1, groupId));
       }
-      return 0;
     });
+
+    return result;
+  }
+
+  private computeAggregates(rows: GridRow<T>[]): GridAggregates {
+    const result: GridAggregates = {};
+
+    this.activeColumns().forEach(column => {
+      if (!column.aggregate) return;
+
+      const aggregateFns = Array.isArray(column.aggregate) ? column.aggregate : [column.aggregate];
+      const values = rows.map(row => getCellValue(row.data, column));
+      const columnResult: Record<string, any> = {};
+
+      const data = rows.map(row => row.data);
+      aggregateFns.forEach(fn => {
+        columnResult[typeof fn === 'string' ? fn : fn.name] = aggregateValues(fn, values, data);
+      });
+
+      result[column.id] = columnResult;
+    });
+
+    return result;
   }
 
   private applyPagination(rows: GridRow<T>[]): GridRow<T>[] {
     const options = this._options();
-    if (!options.enablePagination) return rows;
+    // Virtualized grids render a window of all rows instead of a page
+    if (!options.enablePagination || options.enableVirtualization) return rows;
+    // Cursor and server-side pages arrive from the data source one at a time
+    if (this._pagination().mode === 'cursor' || this.isServerSide()) return rows;
 
     const pagination = this._pagination();
     const startIndex = (pagination.currentPage - 1) * pagination.pageSize;
@@ -414,23 +1255,77 @@ export class GridStateService<T = any> {
     return rows.slice(startIndex, endIndex);
   }
 
-  private updatePaginationTotals(totalFilteredItems: number) {
-    this._pagination.update(p => ({
-      ...p,
-      totalItems: totalFilteredItems,
-      totalPages: Math.ceil(totalFilteredItems / p.pageSize)
-    }));
-  }
+  private buildServerParams(): DataSourceParams {
+    const options = this._options();
+    const pagination = this._pagination();
+    const params: DataSourceParams = {};
+
+    const sort = this._sort();
+    if (sort.length > 0) {
+      params.sort = sort.map(s => ({ field: s.columnId, direction: s.direction }));
+    }
 
-  private getCellValue(data: T, column: GridColumn<T>): any {
-    if (column.accessor) {
-      if (typeof column.accessor === 'function') {
-        return column.accessor(data);
+    const filters = this._filters();
+    if (filters.length > 0) {
+      params.filters = filters.map(f => ({
+        columnId: f.columnId,
+        operator: f.operator || 'contains',
+        value: f.value
+      }));
+    }
+
+    if (options.enablePagination && !options.enableVirtualization) {
+      params.pageSize = pagination.pageSize;
+      if (pagination.mode === 'cursor') {
+        if (pagination.after) params.after = pagination.after;
+        if (pagination.before) params.before = pagination.before;
       } else {
-        return (data as any)[column.accessor];
+        params.page = pagination.currentPage - 1;
       }
     }
-    return (data as any)[column.id];
+
+    return params;
+  }
+
+  // Streaming adapters may emit more than once; each result replaces the rows
+  private loadFromDataSource(params: DataSourceParams): Observable<DataSourceResult<T>> {
+    const adapter = this._options().dataSourceAdapter;
+    if (!adapter) return EMPTY;
+
+    return defer(() => {
+      this._loading.set(true);
+      this._error.set(null);
+
+      return adapter.load(params).pipe(
+        tap(result => this.applyServerResult(result)),
+        catchError(error => {
+          this._error.set(error instanceof Error ? error.message : String(error));
+          return EMPTY;
+        }),
+        finalize(() => this._loading.set(false))
+      );
+    });
+  }
+
+  private applyServerResult(result: DataSourceResult<T>) {
+    this._data.set(result.data);
+    this._serverAggregates.set(result.aggregations ?? null);
+    this._loading.set(false);
+
+    if (this._pagination().mode === 'cursor') {
+      this.setPageInfo({ ...result, totalItems: result.totalCount });
+    } else {
+      this._pagination.update(p => ({
+        ...p,
+        totalItems: result.totalCount,
+        totalPages: Math.ceil(result.totalCount / p.pageSize)
+      }));
+    }
+  }
+
+  // Back to the first page; cursor pages start over without a cursor
+  private resetPage() {
+    this._pagination.update(p => ({ ...p, currentPage: 1, before: null, after: null }));
   }
 
   private defaultFilter(value: any, filterValue: any, operator: string): boolean {
@@ -456,24 +1351,4 @@ export class GridStateService<T = any> {
         return strValue.includes(strFilter);
     }
   }
-
-  private defaultSort(a: any, b: any): number {
-    if (a == null && b == null) return 0;
-    if (a == null) return -1;
-    if (b == null) return 1;
-
-    if (typeof a === 'string' && typeof b === 'string') {
-      return a.localeCompare(b);
-    }
-
-    if (typeof a === 'number' && typeof b === 'number') {
-      return a - b;
-    }
-
-    if (a instanceof Date && b instanceof Date) {
-      return a.getTime() - b.getTime();
-    }
-
-    return String(a).localeCompare(String(b));
-  }
 } 
\ No newline at end of file
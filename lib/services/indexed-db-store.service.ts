@@ -0,0 +1,62 @@
+// ===== IndexedDB Key-Value Store =====
+// One object store in its own database, opened on first use. Used by the IndexedDB mutation
+// queue and remote cache stores; each database is created with its object store on first open.
+export interface IndexedDBKeyValueOptions {
+  dbName: string;
+  storeName: string;
+  keyPath: string;
+}
+
+export class IndexedDBKeyValueStore<V> {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private options: IndexedDBKeyValueOptions) {}
+
+  getAll(): Promise<V[]> {
+    return this.request('readonly', store => store.getAll());
+  }
+
+  put(value: V): Promise<void> {
+    return this.request('readwrite', store => store.put(value)).then(() => undefined);
+  }
+
+  delete(key: IDBValidKey): Promise<void> {
+    return this.request('readwrite', store => store.delete(key)).then(() => undefined);
+  }
+
+  clear(): Promise<void> {
+    return this.request('readwrite', store => store.clear()).then(() => undefined);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const { dbName, storeName, keyPath } = this.options;
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName, { keyPath });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry after a failed open
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  // Resolves once the transaction has committed
+  private request<R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+    return this.open().then(db => new Promise<R>((resolve, reject) => {
+      const transaction = db.transaction(this.options.storeName, mode);
+      const request = run(transaction.objectStore(this.options.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    }));
+  }
+}
@@ -0,0 +1,64 @@
+import { MutationQueueStorage, QueuedMutation } from '../interfaces/advanced-grid.interface';
+import { IndexedDBKeyValueStore } from './indexed-db-store.service';
+
+// ===== IndexedDB =====
+// One object store keyed by mutation id, so getAll() returns the queue in replay order
+export interface IndexedDBMutationQueueOptions {
+  dbName?: string;
+  storeName?: string;
+}
+
+export class IndexedDBMutationQueueStorage<T = any> implements MutationQueueStorage<T> {
+  private store: IndexedDBKeyValueStore<QueuedMutation<T>>;
+
+  constructor(options: IndexedDBMutationQueueOptions = {}) {
+    this.store = new IndexedDBKeyValueStore({
+      dbName: options.dbName ?? 'ng-headless-datagrid',
+      storeName: options.storeName ?? 'mutations',
+      keyPath: 'id'
+    });
+  }
+
+  getAll(): Promise<QueuedMutation<T>[]> {
+    return this.store.getAll();
+  }
+
+  put(mutation: QueuedMutation<T>): Promise<void> {
+    return this.store.put(mutation);
+  }
+
+  delete(id: number): Promise<void> {
+    return this.store.delete(id);
+  }
+
+  clear(): Promise<void> {
+    return this.store.clear();
+  }
+}
+
+// ===== In Memory =====
+// For server rendering and tests; the queue does not survive a reload
+export class InMemoryMutationQueueStorage<T = any> implements MutationQueueStorage<T> {
+  private mutations = new Map<number, QueuedMutation<T>>();
+
+  getAll(): Promise<QueuedMutation<T>[]> {
+    return Promise.resolve(
+      Array.from(this.mutations.values()).sort((a, b) => a.id - b.id).map(mutation => ({ ...mutation }))
+    );
+  }
+
+  put(mutation: QueuedMutation<T>): Promise<void> {
+    this.mutations.set(mutation.id, { ...mutation });
+    return Promise.resolve();
+  }
+
+  delete(id: number): Promise<void> {
+    this.mutations.delete(id);
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    this.mutations.clear();
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,257 @@
+import { GridColumn } from '../interfaces/grid.interface';
+import {
+  ColumnGroup,
+  DynamicColumn,
+  PivotConfig,
+  PivotResult,
+  PivotRow,
+  PivotValue
+} from '../interfaces/advanced-grid.interface';
+import { aggregateValues, compareCellValues, getCellValue } from '../utils/grid.utils';
+
+interface PivotValueColumn<T> {
+  id: string;
+  colKey: string | null;
+  value: PivotValue<T>;
+}
+
+// ===== Pivot Engine =====
+export class PivotEngine<T = any> {
+
+  compute(data: T[], sourceColumns: GridColumn<T>[], config: PivotConfig<T>): PivotResult {
+    const colKeys = this.collectColumnKeys(data, sourceColumns, config.columns);
+    const valueColumns = this.buildValueColumns(colKeys, config);
+
+    const columns: DynamicColumn<PivotRow>[] = [
+      ...config.rows.map(field => ({
+        id: field,
+        header: this.getHeader(sourceColumns, field),
+        sortable: true,
+        filterable: true
+      })),
+      ...valueColumns.map(vc => ({
+        id: vc.id,
+        header: this.getValueHeader(sourceColumns, vc),
+        sortable: true,
+        filterable: false
+      }))
+    ];
+
+    const rows: PivotRow[] = [];
+    this.buildRows(data, sourceColumns, config, valueColumns, 0, [], null, rows);
+
+    const grandTotal = config.grandTotals
+      ? this.createRow('pivot:__grandTotal', null, 'grandTotal', 0, {}, data, sourceColumns, config, valueColumns)
+      : null;
+
+    return {
+      columns,
+      columnGroups: this.buildColumnGroups(colKeys, valueColumns, config),
+      data: rows,
+      grandTotal
+    };
+  }
+
+  // Unique combinations of column dimension values, in ascending order
+  private collectColumnKeys(data: T[], sourceColumns: GridColumn<T>[], fields: string[]): any[][] {
+    if (fields.length === 0) return [];
+
+    const keys = new Map<string, any[]>();
+    data.forEach(item => {
+      const path = fields.map(field => this.getValue(item, field, sourceColumns));
+      keys.set(this.pathKey(path), path);
+    });
+
+    return Array.from(keys.values()).sort((a, b) => {
+      for (let i = 0; i < a.length; i++) {
+        const comparison = compareCellValues(a[i], b[i]);
+        if (comparison !== 0) return comparison;
+      }
+      return 0;
+    });
+  }
+
+  private buildValueColumns(colKeys: any[][], config: PivotConfig<T>): PivotValueColumn<T>[] {
+    const result: PivotValueColumn<T>[] = [];
+
+    if (config.columns.length === 0) {
+      config.values.forEach(value => {
+        result.push({ id: this.valueId(value), colKey: null, value });
+      });
+      return result;
+    }
+
+    colKeys.forEach(path => {
+      const colKey = this.pathKey(path);
+      config.values.forEach(value => {
+        result.push({ id: `${colKey}::${this.valueId(value)}`, colKey, value });
+      });
+    });
+
+    // Row totals across every column key
+    if (config.grandTotals) {
+      config.values.forEach(value => {
+        result.push({ id: `__total::${this.valueId(value)}`, colKey: null, value });
+      });
+    }
+
+    return result;
+  }
+
+  private buildColumnGroups(
+    colKeys: any[][],
+    valueColumns: PivotValueColumn<T>[],
+    config: PivotConfig<T>
+  ): ColumnGroup<PivotRow>[] {
+    const groups = new Map<string, ColumnGroup<PivotRow>>();
+
+    colKeys.forEach(path => {
+      const leafIds = valueColumns
+        .filter(vc => vc.colKey === this.pathKey(path))
+        .map(vc => vc.id);
+
+      // One group per prefix of the column key, nested by level
+      path.forEach((key, level) => {
+        const groupId = `pivot-group:${this.pathKey(path.slice(0, level + 1))}`;
+        const group = groups.get(groupId);
+        if (group) {
+          group.children.push(...leafIds);
+        } else {
+          groups.set(groupId, { id: groupId, header: String(key), children: [...leafIds], expanded: true, level });
+        }
+      });
+    });
+
+    if (config.grandTotals && config.columns.length > 0) {
+      groups.set('pivot-group:__total', {
+        id: 'pivot-group:__total',
+        header: 'Total',
+        children: valueColumns.filter(vc => vc.id.startsWith('__total::')).map(vc => vc.id),
+        expanded: true,
+        level: 0
+      });
+    }
+
+    return Array.from(groups.values());
+  }
+
+  private buildRows(
+    items: T[],
+    sourceColumns: GridColumn<T>[],
+    config: PivotConfig<T>,
+    valueColumns: PivotValueColumn<T>[],
+    depth: number,
+    path: any[],
+    parentId: string | null,
+    result: PivotRow[]
+  ) {
+    if (config.rows.length === 0) {
+      result.push(this.createRow('pivot:__all', null, 'data', 0, {}, items, sourceColumns, config, valueColumns));
+      return;
+    }
+
+    const field = config.rows[depth];
+    const buckets = new Map<string, { key: any; items: T[] }>();
+    items.forEach(item => {
+      const key = this.getValue(item, field, sourceColumns);
+      const bucketKey = this.pathKey([key]);
+      const bucket = buckets.get(bucketKey);
+      if (bucket) {
+        bucket.items.push(item);
+      } else {
+        buckets.set(bucketKey, { key, items: [item] });
+      }
+    });
+
+    const sorted = Array.from(buckets.values()).sort((a, b) => compareCellValues(a.key, b.key));
+    const isLeaf = depth === config.rows.length - 1;
+
+    sorted.forEach(({ key, items: bucketItems }) => {
+      const rowPath = [...path, key];
+      const id = `pivot:${this.pathKey(rowPath)}`;
+      const dimensions: Record<string, any> = {};
+      config.rows.slice(0, depth + 1).forEach((f, i) => dimensions[f] = rowPath[i]);
+
+      if (isLeaf) {
+        result.push(this.createRow(id, parentId, 'data', depth, dimensions, bucketItems, sourceColumns, config, valueColumns));
+        return;
+      }
+
+      // Subtotal rows become tree parents so their children sort as siblings
+      let childParentId = parentId;
+      if (config.subtotals) {
+        result.push(this.createRow(id, parentId, 'subtotal', depth, dimensions, bucketItems, sourceColumns, config, valueColumns));
+        childParentId = id;
+      }
+
+      this.buildRows(bucketItems, sourceColumns, config, valueColumns, depth + 1, rowPath, childParentId, result);
+    });
+  }
+
+  private createRow(
+    id: string,
+    parentId: string | null,
+    rowType: PivotRow['__rowType'],
+    depth: number,
+    dimensions: Record<string, any>,
+    items: T[],
+    sourceColumns: GridColumn<T>[],
+    config: PivotConfig<T>,
+    valueColumns: PivotValueColumn<T>[]
+  ): PivotRow {
+    const row: PivotRow = { id, __parentId: parentId, __rowType: rowType, __depth: depth, ...dimensions };
+
+    // Split the row's items by column key once, then aggregate each cell
+    const itemsByColKey = new Map<string, T[]>();
+    if (config.columns.length > 0) {
+      items.forEach(item => {
+        const colKey = this.pathKey(config.columns.map(field => this.getValue(item, field, sourceColumns)));
+        const bucket = itemsByColKey.get(colKey);
+        if (bucket) {
+          bucket.push(item);
+        } else {
+          itemsByColKey.set(colKey, [item]);
+        }
+      });
+    }
+
+    valueColumns.forEach(vc => {
+      const cellItems = vc.colKey === null ? items : itemsByColKey.get(vc.colKey) || [];
+      row[vc.id] = cellItems.length > 0
+        ? this.aggregate(vc.value, cellItems, sourceColumns)
+        : null;
+    });
+
+    return row;
+  }
+
+  private aggregate(value: PivotValue<T>, items: T[], sourceColumns: GridColumn<T>[]): any {
+    const values = items.map(item => this.getValue(item, value.columnId, sourceColumns));
+    return aggregateValues(value.aggregate, values, items);
+  }
+
+  private valueId(value: PivotValue<T>): string {
+    const name = typeof value.aggregate === 'string' ? value.aggregate : value.aggregate.name;
+    return `${value.columnId}_${name}`;
+  }
+
+  private getValueHeader(sourceColumns: GridColumn<T>[], vc: PivotValueColumn<T>): string {
+    if (vc.value.header) return vc.value.header;
+
+    const name = typeof vc.value.aggregate === 'string' ? vc.value.aggregate : vc.value.aggregate.name;
+    return `${name} of ${this.getHeader(sourceColumns, vc.value.columnId)}`;
+  }
+
+  private getHeader(sourceColumns: GridColumn<T>[], field: string): string {
+    return sourceColumns.find(c => c.id === field)?.header ?? field;
+  }
+
+  private getValue(item: T, field: string, sourceColumns: GridColumn<T>[]): any {
+    const column = sourceColumns.find(c => c.id === field);
+    return column ? getCellValue(item, column) : (item as any)[field];
+  }
+
+  private pathKey(path: any[]): string {
+    return path.map(key => key instanceof Date ? key.toISOString() : String(key)).join('|');
+  }
+}
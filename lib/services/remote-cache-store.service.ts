@@ -0,0 +1,38 @@
+import { RemoteCacheEntry, RemoteCacheStore } from '../interfaces/advanced-grid.interface';
+import { IndexedDBKeyValueStore } from './indexed-db-store.service';
+
+// ===== IndexedDB =====
+// One object store keyed by cache key. The default database is separate from the mutation
+// queue's, so each can create its object store on first open.
+export interface IndexedDBRemoteCacheOptions {
+  dbName?: string;
+  storeName?: string;
+}
+
+export class IndexedDBRemoteCacheStore<T = any> implements RemoteCacheStore<T> {
+  private store: IndexedDBKeyValueStore<RemoteCacheEntry<T>>;
+
+  constructor(options: IndexedDBRemoteCacheOptions = {}) {
+    this.store = new IndexedDBKeyValueStore({
+      dbName: options.dbName ?? 'ng-headless-datagrid-cache',
+      storeName: options.storeName ?? 'pages',
+      keyPath: 'key'
+    });
+  }
+
+  getAll(): Promise<RemoteCacheEntry<T>[]> {
+    return this.store.getAll();
+  }
+
+  put(entry: RemoteCacheEntry<T>): Promise<void> {
+    return this.store.put(entry);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.store.delete(key);
+  }
+
+  clear(): Promise<void> {
+    return this.store.clear();
+  }
+}
@@ -183,7 +183,7 @@ export class SmartFilteringService<T = any> {
 
     return data.filter(row => {
       // Apply advanced filters
-      const passesAdvancedFilters = this.evaluateAdvancedFilters(row, filters);
+      const passesAdvancedFilters = matchesAdvancedFilters(row, filters);
       
       // Apply global search
       const passesGlobalSearch = !globalSearch || 
@@ -193,86 +193,6 @@ export class SmartFilteringService<T = any> {
     });
   }
 
-  private evaluateAdvancedFilters(row: T, filters: AdvancedFilter[]): boolean {
-    if (filters.length === 0) return true;
-
-    // Group filters by condition (AND/OR)
-    const andFilters = filters.filter(f => !f.condition || f.condition === 'and');
-    const orFilters = filters.filter(f => f.condition === 'or');
-
-    // All AND filters must pass
-    const passesAndFilters = andFilters.every(filter => 
-      this.evaluateFilter(row, filter)
-    );
-
-    // At least one OR filter must pass (if any exist)
-    const passesOrFilters = orFilters.length === 0 || 
-      orFilters.some(filter => this.evaluateFilter(row, filter));
-
-    return passesAndFilters && passesOrFilters;
-  }
-
-  private evaluateFilter(row: T, filter: AdvancedFilter): boolean {
-    const value = this.getFieldValue(row, filter.columnId);
-    const filterValue = filter.value;
-    const filterValue2 = filter.value2;
-
-    if (value == null && filter.operator !== 'isEmpty' && filter.operator !== 'isNotEmpty') {
-      return false;
-    }
-
-    switch (filter.operator) {
-      case 'equals':
-        return this.compareValues(value, filterValue, 'equals', filter.caseSensitive);
-      
-      case 'contains':
-        return this.compareValues(value, filterValue, 'contains', filter.caseSensitive);
-      
-      case 'startsWith':
-        return this.compareValues(value, filterValue, 'startsWith', filter.caseSensitive);
-      
-      case 'endsWith':
-        return this.compareValues(value, filterValue, 'endsWith', filter.caseSensitive);
-      
-      case 'greaterThan':
-        return this.compareNumeric(value, filterValue, '>');
-      
-      case 'lessThan':
-        return this.compareNumeric(value, filterValue, '<');
-      
-      case 'between':
-        return this.compareNumeric(value, filterValue, '>=') && 
-               this.compareNumeric(value, filterValue2, '<=');
-      
-      case 'in':
-        return Array.isArray(filterValue) && 
-               filterValue.some(v => this.compareValues(value, v, 'equals', filter.caseSensitive));
-      
-      case 'notIn':
-        return !Array.isArray(filterValue) || 
-               !filterValue.some(v => this.compareValues(value, v, 'equals', filter.caseSensitive));
-      
-      case 'isEmpty':
-        return value == null || value === '' || 
-               (Array.isArray(value) && value.length === 0);
-      
-      case 'isNotEmpty':
-        return value != null && value !== '' && 
-               (!Array.isArray(value) || value.length > 0);
-      
-      case 'regex':
-        try {
-          const regex = new RegExp(filterValue, filter.caseSensitive ? 'g' : 'gi');
-          return regex.test(String(value));
-        } catch {
-          return false;
-        }
-      
-      default:
-        return true;
-    }
-  }
-
   private evaluateGlobalSearch(
     row: T, 
     searchTerm: string, 
@@ -294,52 +214,6 @@ export class SmartFilteringService<T = any> {
     });
   }
 
-  private compareValues(
-    value: any, 
-    filterValue: any, 
-    operator: 'equals' | 'contains' | 'startsWith' | 'endsWith',
-    caseSensitive?: boolean
-  ): boolean {
-    const valueStr = String(value);
-    const filterStr = String(filterValue);
-    
-    const compareValue = caseSensitive ? valueStr : valueStr.toLowerCase();
-    const compareFilter = caseSensitive ? filterStr : filterStr.toLowerCase();
-
-    switch (operator) {
-      case 'equals':
-        return compareValue === compareFilter;
-      case 'contains':
-        return compareValue.includes(compareFilter);
-      case 'startsWith':
-        return compareValue.startsWith(compareFilter);
-      case 'endsWith':
-        return compareValue.endsWith(compareFilter);
-      default:
-        return false;
-    }
-  }
-
-  private compareNumeric(value: any, filterValue: any, operator: '>' | '<' | '>=' | '<='): boolean {
-    const numValue = Number(value);
-    const numFilter = Number(filterValue);
-    
-    if (isNaN(numValue) || isNaN(numFilter)) return false;
-
-    switch (operator) {
-      case '>':
-        return numValue > numFilter;
-      case '<':
-        return numValue < numFilter;
-      case '>=':
-        return numValue >= numFilter;
-      case '<=':
-        return numValue <= numFilter;
-      default:
-        return false;
-    }
-  }
-
   private getFieldValue(row: T, fieldPath: string): any {
     return (row as any)[fieldPath];
   }
@@ -475,7 +349,7 @@ export class SmartFilteringService<T = any> {
   importState(state: any) {
     if (state.advancedFilters) this._advancedFilters.set(state.advancedFilters);
     if (state.filterPresets) this._filterPresets.set(state.filterPresets);
-    if (state.globalSearch) {
+    if (state.globalSearch !== undefined) {
       this._globalSearch.set(state.globalSearch);
       this._globalSearchSubject.next(state.globalSearch);
     }
@@ -491,4 +365,131 @@ export class SmartFilteringService<T = any> {
   private generateId(): string {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
   }
-} 
\ No newline at end of file
+} 
+
+// Advanced filter evaluation, shared with data source adapters that filter locally
+export function matchesAdvancedFilters<T>(row: T, filters: AdvancedFilter[]): boolean {
+  if (filters.length === 0) return true;
+
+  // Group filters by condition (AND/OR)
+  const andFilters = filters.filter(f => !f.condition || f.condition === 'and');
+  const orFilters = filters.filter(f => f.condition === 'or');
+
+  // All AND filters must pass
+  const passesAndFilters = andFilters.every(filter => 
+    evaluateFilter(row, filter)
+  );
+
+  // At least one OR filter must pass (if any exist)
+  const passesOrFilters = orFilters.length === 0 || 
+    orFilters.some(filter => evaluateFilter(row, filter));
+
+  return passesAndFilters && passesOrFilters;
+}
+
+function evaluateFilter<T>(row: T, filter: AdvancedFilter): boolean {
+  const value = (row as any)[filter.columnId];
+  const filterValue = filter.value;
+  const filterValue2 = filter.value2;
+
+  if (value == null && filter.operator !== 'isEmpty' && filter.operator !== 'isNotEmpty') {
+    return false;
+  }
+
+  switch (filter.operator) {
+    case 'equals':
+      return compareValues(value, filterValue, 'equals', filter.caseSensitive);
+    
+    case 'contains':
+      return compareValues(value, filterValue, 'contains', filter.caseSensitive);
+    
+    case 'startsWith':
+      return compareValues(value, filterValue, 'startsWith', filter.caseSensitive);
+    
+    case 'endsWith':
+      return compareValues(value, filterValue, 'endsWith', filter.caseSensitive);
+    
+    case 'greaterThan':
+      return compareNumeric(value, filterValue, '>');
+    
+    case 'lessThan':
+      return compareNumeric(value, filterValue, '<');
+    
+    case 'between':
+      return compareNumeric(value, filterValue, '>=') && 
+             compareNumeric(value, filterValue2, '<=');
+    
+    case 'in':
+      return Array.isArray(filterValue) && 
+             filterValue.some(v => compareValues(value, v, 'equals', filter.caseSensitive));
+    
+    case 'notIn':
+      return !Array.isArray(filterValue) || 
+             !filterValue.some(v => compareValues(value, v, 'equals', filter.caseSensitive));
+    
+    case 'isEmpty':
+      return value == null || value === '' || 
+             (Array.isArray(value) && value.length === 0);
+    
+    case 'isNotEmpty':
+      return value != null && value !== '' && 
+             (!Array.isArray(value) || value.length > 0);
+    
+    case 'regex':
+      try {
+        const regex = new RegExp(filterValue, filter.caseSensitive ? 'g' : 'gi');
+        return regex.test(String(value));
+      } catch {
+        return false;
+      }
+    
+    default:
+      return true;
+  }
+}
+
+function compareValues(
+  value: any, 
+  filterValue: any, 
+  operator: 'equals' | 'contains' | 'startsWith' | 'endsWith',
+  caseSensitive?: boolean
+): boolean {
+  const valueStr = String(value);
+  const filterStr = String(filterValue);
+  
+  const compareValue = caseSensitive ? valueStr : valueStr.toLowerCase();
+  const compareFilter = caseSensitive ? filterStr : filterStr.toLowerCase();
+
+  switch (operator) {
+    case 'equals':
+      return compareValue === compareFilter;
+    case 'contains':
+      return compareValue.includes(compareFilter);
+    case 'startsWith':
+      return compareValue.startsWith(compareFilter);
+    case 'endsWith':
+      return compareValue.endsWith(compareFilter);
+    default:
+      return false;
+  }
+}
+
+function compareNumeric(value: any, filterValue: any, operator: '>' | '<' | '>=' | '<='): boolean {
+  const numValue = Number(value);
+  const numFilter = Number(filterValue);
+  
+  if (isNaN(numValue) || isNaN(numFilter)) return false;
+
+  switch (operator) {
+    case '>':
+      return numValue > numFilter;
+    case '<':
+      return numValue < numFilter;
+    case '>=':
+      return numValue >= numFilter;
+    case '<=':
+      return numValue <= numFilter;
+    default:
+      return false;
+  }
+}
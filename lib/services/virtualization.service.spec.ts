@@ -0,0 +1,64 @@
+import { TestBed } from '@angular/core/testing';
+import { VirtualizationService } from './virtualization.service';
+
+describe('VirtualizationService (variable height)', () => {
+  let virtualization: VirtualizationService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [VirtualizationService] });
+    virtualization = TestBed.inject(VirtualizationService);
+
+    // Items are estimated at 10, 20, 30, 40 and 50px, so they start at 0, 10, 30, 60 and 100
+    virtualization.setVariableHeight({
+      enabled: true,
+      defaultHeight: 40,
+      minHeight: 5,
+      maxHeight: 100,
+      estimateHeight: (_, index) => (index + 1) * 10
+    });
+    virtualization.setItems([{}, {}, {}, {}, {}]);
+  });
+
+  it('sums the heights of the items before an index', () => {
+    expect([0, 1, 2, 3, 4, 5].map(index => virtualization.getItemOffset(index))).toEqual([0, 10, 30, 60, 100, 150]);
+    expect(virtualization.getItemOffset(9)).toBe(150);
+  });
+
+  it('finds the item that contains an offset', () => {
+    const positions = [-5, 0, 9, 10, 29, 30, 59, 60, 99, 100, 149, 150, 500];
+    expect(positions.map(position => virtualization.getItemAtPosition(position)))
+      .toEqual([0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 4, 4]);
+  });
+
+  it('moves the offsets after an item once it is measured', () => {
+    virtualization.measureHeight(1, 60);
+
+    expect([0, 1, 2, 3, 4, 5].map(index => virtualization.getItemOffset(index))).toEqual([0, 10, 70, 100, 140, 190]);
+    expect(virtualization.getItemAtPosition(69)).toBe(1);
+    expect(virtualization.getItemAtPosition(70)).toBe(2);
+    expect(virtualization.getItemHeight(1)).toBe(60);
+  });
+
+  it('clamps measured heights to minHeight and maxHeight', () => {
+    virtualization.measureHeights([{ index: 0, height: 1 }, { index: 1, height: 500 }]);
+
+    expect(virtualization.getItemHeight(0)).toBe(5);
+    expect(virtualization.getItemHeight(1)).toBe(100);
+    expect(virtualization.getItemOffset(2)).toBe(105);
+  });
+
+  it('shifts the scroll position when an item above the viewport grows', () => {
+    virtualization.handleScroll(65);
+
+    expect(virtualization.measureHeight(1, 50)).toBe(95);
+    expect(virtualization.getItemAtPosition(95)).toBe(3);
+  });
+
+  it('keeps the scroll position when the first visible item or one below it changes', () => {
+    virtualization.handleScroll(65);
+
+    expect(virtualization.measureHeight(3, 80)).toBeNull();
+    expect(virtualization.measureHeight(4, 20)).toBeNull();
+    expect(virtualization.getItemAtPosition(65)).toBe(3);
+  });
+});
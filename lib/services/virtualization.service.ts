@@ -1,5 +1,16 @@
-import { Injectable, signal, computed } from '@angular/core';
+import { Injectable, signal, computed, inject, DestroyRef } from '@angular/core';
+import { Subject, Subscription } from 'rxjs';
 import { GridRow } from '../interfaces/grid.interface';
+import {
+  DataSourceAdapter,
+  DataSourceParams,
+  DataSourceResult,
+  DynamicColumn,
+  HorizontalVirtualizationConfig,
+  PredictiveLoadingConfig,
+  VariableHeightConfig
+} from '../interfaces/advanced-grid.interface';
+import { ColumnManagementService } from './column-management.service';
 
 export interface VirtualizationState {
   containerHeight: number;
@@ -12,37 +23,301 @@ export interface VirtualizationState {
   visibleItems: number;
   totalHeight: number;
   offsetY: number;
+  pinnedTopHeight: number;
+  pinnedBottomHeight: number;
+  scrollDirection: 'up' | 'down' | 'none';
+  scrollVelocity: number; // px per ms
+}
+
+export interface PrefetchMetrics {
+  requests: number;
+  prefetches: number;
+  hits: number;
+  misses: number;
+  cancelled: number;
+  hitRate: number;
+}
+
+export interface PrefetchPageEvent<T = any> {
+  page: number;
+  result: DataSourceResult<T>;
+  prefetched: boolean;
+}
+
+export interface HorizontalVirtualizationState<T = any> {
+  containerWidth: number;
+  scrollLeft: number;
+  // Indexes into the unpinned (center) columns
+  visibleStartIndex: number;
+  visibleEndIndex: number;
+  leftColumns: DynamicColumn<T>[];
+  visibleColumns: DynamicColumn<T>[];
+  rightColumns: DynamicColumn<T>[];
+  leftWidth: number;
+  rightWidth: number;
+  centerWidth: number;
+  totalWidth: number;
+  // Placeholders for the unrendered center columns on each side
+  leftSpacerWidth: number;
+  rightSpacerWidth: number;
+  offsetX: number;
+}
+
+// Fenwick tree over item heights: prefix sums and offset lookups in O(log n)
+class HeightIndex {
+  private tree = new Float64Array(1);
+  private heights = new Float64Array(0);
+
+  get size(): number {
+    return this.heights.length;
+  }
+
+  build(heights: ArrayLike<number>) {
+    const n = heights.length;
+    this.heights = Float64Array.from(heights);
+    this.tree = new Float64Array(n + 1);
+
+    for (let i = 1; i <= n; i++) {
+      this.tree[i] += heights[i - 1];
+      const parent = i + (i & -i);
+      if (parent <= n) this.tree[parent] += this.tree[i];
+    }
+  }
+
+  get(index: number): number {
+    return this.heights[index] ?? 0;
+  }
+
+  set(index: number, height: number) {
+    const delta = height - this.heights[index];
+    if (delta === 0) return;
+
+    this.heights[index] = height;
+    for (let i = index + 1; i < this.tree.length; i += i & -i) {
+      this.tree[i] += delta;
+    }
+  }
+
+  // Sum of the heights of items before the index
+  offsetOf(index: number): number {
+    let sum = 0;
+    for (let i = Math.min(index, this.size); i > 0; i -= i & -i) {
+      sum += this.tree[i];
+    }
+    return sum;
+  }
+
+  total(): number {
+    return this.offsetOf(this.size);
+  }
+
+  // Index of the item that contains the offset
+  indexAt(offset: number): number {
+    if (this.size === 0 || offset <= 0) return 0;
+
+    let index = 0;
+    let remaining = offset;
+    for (let step = 1 << Math.floor(Math.log2(this.size)); step > 0; step >>= 1) {
+      const next = index + step;
+      if (next <= this.size && this.tree[next] <= remaining) {
+        index = next;
+        remaining -= this.tree[next];
+      }
+    }
+    return Math.min(index, this.size - 1);
+  }
 }
 
 @Injectable()
 export class VirtualizationService<T = any> {
+  private columnService = inject<ColumnManagementService<T>>(ColumnManagementService, { optional: true });
+  private destroyRef = inject(DestroyRef, { optional: true });
+
   private _containerHeight = signal<number>(400);
   private _itemHeight = signal<number>(40);
   private _overscan = signal<number>(5);
   private _scrollTop = signal<number>(0);
   private _totalItems = signal<number>(0);
+  private _detailHeights = signal<Record<number, number>>({});
+  private _pinnedRowCounts = signal<{ top: number; bottom: number }>({ top: 0, bottom: 0 });
+  private _variableHeight = signal<VariableHeightConfig | null>(null);
+
+  // Variable height bookkeeping; the version signal tracks in-place index updates
+  private heightIndex = new HeightIndex();
+  private measuredHeights = new Map<number, number>();
+  private items: any[] = [];
+  private _heightVersion = signal<number>(0);
+
+  isVariableHeight = computed(() => !!this._variableHeight()?.enabled);
+
+  // Scroll tracking
+  private _scrollDirection = signal<'up' | 'down' | 'none'>('none');
+  private _scrollVelocity = signal<number>(0);
+  private lastScrollTime = 0;
+
+  // Predictive loading; pages are 0-based like InfiniteScrollDataSourceAdapter
+  private _predictiveLoading = signal<PredictiveLoadingConfig | null>(null);
+  private prefetchAdapter: DataSourceAdapter<T> | null = null;
+  private prefetchParams: DataSourceParams = {};
+  private loadedPages = new Set<number>();
+  private prefetchedPages = new Set<number>();
+  private pendingPages = new Map<number, { subscription: Subscription; prefetch: boolean }>();
+  private _metrics = signal<Omit<PrefetchMetrics, 'hitRate'>>({
+    requests: 0,
+    prefetches: 0,
+    hits: 0,
+    misses: 0,
+    cancelled: 0
+  });
+  private _pageLoaded = new Subject<PrefetchPageEvent<T>>();
+  private _pageError = new Subject<{ page: number; error: any }>();
+
+  pageLoaded$ = this._pageLoaded.asObservable();
+  pageError$ = this._pageError.asObservable();
+
+  prefetchMetrics = computed<PrefetchMetrics>(() => {
+    const metrics = this._metrics();
+    const lookups = metrics.hits + metrics.misses;
+    return { ...metrics, hitRate: lookups > 0 ? metrics.hits / lookups : 0 };
+  });
+
+  // Horizontal virtualization
+  private _horizontal = signal<HorizontalVirtualizationConfig | null>(null);
+  private _containerWidth = signal<number>(800);
+  private _scrollLeft = signal<number>(0);
+  private _columns = signal<DynamicColumn<T>[] | null>(null);
+
+  // Columns split into pinned and scrolling parts, from ColumnManagementService unless set explicitly
+  private columnLayout = computed(() => {
+    const columns = this._columns();
+    if (columns) {
+      const visible = columns.filter(column => !column.hidden);
+      const pin = (column: DynamicColumn<T>) => column.locked || column.pinned;
+      return {
+        left: visible.filter(column => pin(column) === 'left'),
+        center: visible.filter(column => !pin(column)),
+        right: visible.filter(column => pin(column) === 'right')
+      };
+    }
+
+    if (this.columnService) {
+      return {
+        left: this.columnService.lockedLeftColumns(),
+        center: this.columnService.centerColumns(),
+        right: this.columnService.lockedRightColumns()
+      };
+    }
+
+    return { left: [], center: [], right: [] };
+  });
+
+  // Left offsets of the center columns; the last entry is their total width
+  private centerOffsets = computed(() => {
+    const offsets = [0];
+    this.columnLayout().center.forEach(column => {
+      offsets.push(offsets[offsets.length - 1] + this.getColumnWidth(column));
+    });
+    return offsets;
+  });
+
+  private horizontalRange = computed(() => {
+    const offsets = this.centerOffsets();
+    const count = offsets.length - 1;
+    if (count === 0) return { start: 0, end: -1 };
+
+    const layout = this.columnLayout();
+    const config = this._horizontal();
+
+    // Without horizontal virtualization every column is rendered
+    if (!config?.enabled) return { start: 0, end: count - 1 };
+
+    const pinnedWidth = this.sumWidths(layout.left) + this.sumWidths(layout.right);
+    const viewportWidth = Math.max(0, this._containerWidth() - pinnedWidth);
+    const scrollLeft = this._scrollLeft();
+    const overscan = config.overscan ?? 0;
+
+    const first = this.findColumnAt(offsets, scrollLeft);
+    const last = this.findColumnAt(offsets, scrollLeft + viewportWidth);
+
+    return {
+      start: Math.max(0, first - overscan),
+      end: Math.min(count - 1, last + overscan)
+    };
+  });
+
+  horizontalState = computed<HorizontalVirtualizationState<T>>(() => {
+    const layout = this.columnLayout();
+    const offsets = this.centerOffsets();
+    const { start, end } = this.horizontalRange();
+    const centerWidth = offsets[offsets.length - 1];
+    const leftWidth = this.sumWidths(layout.left);
+    const rightWidth = this.sumWidths(layout.right);
+    const leftSpacerWidth = end >= start ? offsets[start] : 0;
+    const rightSpacerWidth = end >= start ? centerWidth - offsets[end + 1] : centerWidth;
+
+    return {
+      containerWidth: this._containerWidth(),
+      scrollLeft: this._scrollLeft(),
+      visibleStartIndex: start,
+      visibleEndIndex: end,
+      leftColumns: layout.left,
+      visibleColumns: layout.center.slice(start, end + 1),
+      rightColumns: layout.right,
+      leftWidth,
+      rightWidth,
+      centerWidth,
+      totalWidth: leftWidth + centerWidth + rightWidth,
+      leftSpacerWidth,
+      rightSpacerWidth,
+      offsetX: leftWidth + leftSpacerWidth
+    };
+  });
+
+  // Indexes with an open detail panel, in ascending order
+  private detailIndexes = computed(() => 
+    Object.keys(this._detailHeights()).map(Number).sort((a, b) => a - b)
+  );
+
+  // Pinned rows stick to the top and bottom of the container and cover part of the body
+  private pinnedTopHeight = computed(() => this._pinnedRowCounts().top * this._itemHeight());
+  private pinnedBottomHeight = computed(() => this._pinnedRowCounts().bottom * this._itemHeight());
+
+  // Height available to scrolling rows
+  private bodyHeight = computed(() =>
+    Math.max(0, this._containerHeight() - this.pinnedTopHeight() - this.pinnedBottomHeight())
+  );
 
   // Computed values for virtualization
   private visibleItems = computed(() => 
-    Math.ceil(this._containerHeight() / this._itemHeight())
+    Math.ceil(this.bodyHeight() / this.averageItemHeight())
   );
 
   private visibleStartIndex = computed(() => {
-    const startIndex = Math.floor(this._scrollTop() / this._itemHeight());
+    const startIndex = this.getItemAtPosition(this._scrollTop());
     return Math.max(0, startIndex - this._overscan());
   });
 
   private visibleEndIndex = computed(() => {
+    if (this.isVariableHeight()) {
+      const lastVisible = this.getItemAtPosition(this._scrollTop() + this.bodyHeight());
+      return Math.min(this._totalItems() - 1, lastVisible + this._overscan());
+    }
+
     const endIndex = this.visibleStartIndex() + this.visibleItems() + (this._overscan() * 2);
     return Math.min(this._totalItems() - 1, endIndex);
   });
 
-  private totalHeight = computed(() => 
-    this._totalItems() * this._itemHeight()
-  );
+  private totalHeight = computed(() => {
+    if (this.isVariableHeight()) {
+      this._heightVersion();
+      return this.heightIndex.total();
+    }
+
+    return this._totalItems() * this._itemHeight() + this.getDetailHeightBefore(this._totalItems());
+  });
 
   private offsetY = computed(() => 
-    this.visibleStartIndex() * this._itemHeight()
+    this.getItemOffset(this.visibleStartIndex())
   );
 
   // Public computed state
@@ -56,9 +331,17 @@ export class VirtualizationService<T = any> {
     visibleEndIndex: this.visibleEndIndex(),
     visibleItems: this.visibleItems(),
     totalHeight: this.totalHeight(),
-    offsetY: this.offsetY()
+    offsetY: this.offsetY(),
+    pinnedTopHeight: this.pinnedTopHeight(),
+    pinnedBottomHeight: this.pinnedBottomHeight(),
+    scrollDirection: this._scrollDirection(),
+    scrollVelocity: this._scrollVelocity()
   }));
 
+  constructor() {
+    this.destroyRef?.onDestroy(() => this.cancelPendingPages());
+  }
+
   // Configuration methods
   setContainerHeight(height: number) {
     this._containerHeight.set(height);
@@ -72,13 +355,222 @@ export class VirtualizationService<T = any> {
     this._overscan.set(overscan);
   }
 
+  // Number of rows pinned above and below the body; they use the item height
+  setPinnedRowCounts(top: number, bottom: number) {
+    this._pinnedRowCounts.set({ top, bottom });
+  }
+
   setTotalItems(count: number) {
     this._totalItems.set(count);
+    this.rebuildHeightIndex();
+  }
+
+  // Items passed to estimateHeight; measured heights are dropped because indexes may have moved
+  setItems(items: any[]) {
+    this.items = items;
+    this.measuredHeights.clear();
+    this._totalItems.set(items.length);
+    this.rebuildHeightIndex();
+  }
+
+  // Extra heights of expanded detail rows, keyed by item index
+  setDetailHeights(heights: Record<number, number>) {
+    this._detailHeights.set(heights);
+    this.rebuildHeightIndex();
+  }
+
+  // ===== VARIABLE HEIGHT =====
+
+  setVariableHeight(config: VariableHeightConfig | null) {
+    this._variableHeight.set(config);
+    if (config?.enabled) {
+      this._itemHeight.set(config.defaultHeight);
+    }
+    this.rebuildHeightIndex();
+  }
+
+  // Records the rendered height of an item. Returns the corrected scroll position when
+  // items above the viewport changed size, so the visible content does not jump.
+  measureHeight(index: number, height: number): number | null {
+    return this.measureHeights([{ index, height }]);
+  }
+
+  measureElement(index: number, element: HTMLElement): number | null {
+    const measure = this._variableHeight()?.measureHeight;
+    const height = measure ? measure(element) : element.getBoundingClientRect().height;
+    return this.measureHeight(index, height);
+  }
+
+  measureHeights(measurements: { index: number; height: number }[]): number | null {
+    if (!this.isVariableHeight()) return null;
+
+    const scrollTop = this._scrollTop();
+    const anchorIndex = this.heightIndex.indexAt(scrollTop);
+    const anchorOffset = this.heightIndex.offsetOf(anchorIndex);
+    let changed = false;
+
+    measurements.forEach(({ index, height }) => {
+      if (index < 0 || index >= this.heightIndex.size) return;
+
+      const clamped = this.clampHeight(height);
+      this.measuredHeights.set(index, clamped);
+
+      const total = clamped + (this._detailHeights()[index] ?? 0);
+      if (this.heightIndex.get(index) !== total) {
+        this.heightIndex.set(index, total);
+        changed = true;
+      }
+    });
+
+    if (!changed) return null;
+    this._heightVersion.update(v => v + 1);
+
+    // Scroll anchoring: keep the first visible item at the same place on screen
+    const shift = this.heightIndex.offsetOf(anchorIndex) - anchorOffset;
+    if (shift === 0) return null;
+
+    const corrected = Math.max(0, scrollTop + shift);
+    this._scrollTop.set(corrected);
+    return corrected;
+  }
+
+  isHeightMeasured(index: number): boolean {
+    return this.measuredHeights.has(index);
+  }
+
+  getItemHeight(index: number): number {
+    if (this.isVariableHeight()) {
+      this._heightVersion();
+      return this.heightIndex.get(index);
+    }
+    return this._itemHeight() + (this._detailHeights()[index] ?? 0);
   }
 
   // Scroll handling
   handleScroll(scrollTop: number) {
+    this.trackScroll(scrollTop);
     this._scrollTop.set(scrollTop);
+
+    if (this.prefetchAdapter) {
+      this.loadVisiblePages();
+      if (this._predictiveLoading()?.prefetchOnScroll !== false) {
+        this.prefetchAhead();
+      }
+    }
+  }
+
+  // ===== PREDICTIVE LOADING =====
+
+  // Loads pages of `params.pageSize` rows from the adapter as the viewport approaches them
+  setPredictiveLoading(
+    adapter: DataSourceAdapter<T> | null,
+    config: PredictiveLoadingConfig | null,
+    params: DataSourceParams = {}
+  ) {
+    this.cancelPendingPages();
+    this.loadedPages.clear();
+    this.prefetchedPages.clear();
+
+    this.prefetchAdapter = config?.enabled ? adapter : null;
+    this._predictiveLoading.set(config?.enabled ? config : null);
+    this.prefetchParams = params;
+
+    if (this.prefetchAdapter) {
+      this.loadVisiblePages();
+    }
+  }
+
+  // New sort or filter parameters invalidate every loaded page
+  updatePrefetchParams(params: DataSourceParams, reason: 'sort' | 'filter' | 'other' = 'other') {
+    this.prefetchParams = { ...this.prefetchParams, ...params };
+    this.cancelPendingPages();
+    this.loadedPages.clear();
+    this.prefetchedPages.clear();
+
+    if (!this.prefetchAdapter) return;
+
+    this.loadVisiblePages();
+
+    const config = this._predictiveLoading()!;
+    if ((reason === 'sort' && config.prefetchOnSort) || (reason === 'filter' && config.prefetchOnFilter)) {
+      this.prefetchAhead();
+    }
+  }
+
+  isPageLoaded(page: number): boolean {
+    return this.loadedPages.has(page);
+  }
+
+  resetPrefetchMetrics() {
+    this._metrics.set({ requests: 0, prefetches: 0, hits: 0, misses: 0, cancelled: 0 });
+  }
+
+  // ===== HORIZONTAL VIRTUALIZATION =====
+
+  setHorizontalVirtualization(config: HorizontalVirtualizationConfig | null) {
+    this._horizontal.set(config);
+  }
+
+  setContainerWidth(width: number) {
+    this._containerWidth.set(width);
+  }
+
+  // Overrides the columns read from ColumnManagementService
+  setColumns(columns: DynamicColumn<T>[] | null) {
+    this._columns.set(columns);
+  }
+
+  handleHorizontalScroll(scrollLeft: number) {
+    this._scrollLeft.set(Math.max(0, scrollLeft));
+  }
+
+  // Columns to render, pinned columns included, in display order
+  getRenderedColumns(): DynamicColumn<T>[] {
+    const state = this.horizontalState();
+    return [...state.leftColumns, ...state.visibleColumns, ...state.rightColumns];
+  }
+
+  // Left offset of a column from the start of the row, for absolute positioning
+  getColumnOffset(columnId: string): number | null {
+    const layout = this.columnLayout();
+    const state = this.horizontalState();
+
+    const leftIndex = layout.left.findIndex(column => column.id === columnId);
+    if (leftIndex >= 0) return this.sumWidths(layout.left.slice(0, leftIndex));
+
+    const centerIndex = layout.center.findIndex(column => column.id === columnId);
+    if (centerIndex >= 0) return state.leftWidth + this.centerOffsets()[centerIndex];
+
+    const rightIndex = layout.right.findIndex(column => column.id === columnId);
+    if (rightIndex >= 0) {
+      return state.leftWidth + state.centerWidth + this.sumWidths(layout.right.slice(0, rightIndex));
+    }
+
+    return null;
+  }
+
+  // Scrolls a center column into view; returns the new scrollLeft, or null when no scroll is needed
+  scrollToColumnIfNeeded(columnId: string): number | null {
+    const layout = this.columnLayout();
+    const index = layout.center.findIndex(column => column.id === columnId);
+    if (index < 0) return null;
+
+    const offsets = this.centerOffsets();
+    const pinnedWidth = this.sumWidths(layout.left) + this.sumWidths(layout.right);
+    const viewportWidth = Math.max(0, this._containerWidth() - pinnedWidth);
+    const scrollLeft = this._scrollLeft();
+
+    let position: number | null = null;
+    if (offsets[index] < scrollLeft) {
+      position = offsets[index];
+    } else if (offsets[index + 1] > scrollLeft + viewportWidth) {
+      position = Math.max(0, offsets[index + 1] - viewportWidth);
+    }
+
+    if (position !== null) {
+      this._scrollLeft.set(position);
+    }
+    return position;
   }
 
   // Get visible slice of items
@@ -100,7 +592,7 @@ export class VirtualizationService<T = any> {
   // Get the styles for the inner content
   getContentStyles(): Record<string, string> {
     return {
-      height: `${this.totalHeight()}px`,
+      height: `${this.totalHeight() + this.pinnedTopHeight() + this.pinnedBottomHeight()}px`,
       position: 'relative'
     };
   }
@@ -108,7 +600,7 @@ export class VirtualizationService<T = any> {
   // Get the styles for the visible items wrapper
   getVisibleItemsStyles(): Record<string, string> {
     return {
-      transform: `translateY(${this.offsetY()}px)`,
+      transform: `translateY(${this.offsetY() + this.pinnedTopHeight()}px)`,
       position: 'absolute',
       top: '0',
       left: '0',
@@ -118,12 +610,44 @@ export class VirtualizationService<T = any> {
 
   // Calculate which item is at a given scroll position
   getItemAtPosition(position: number): number {
-    return Math.floor(position / this._itemHeight());
+    if (this.isVariableHeight()) {
+      this._heightVersion();
+      return this.heightIndex.indexAt(position);
+    }
+
+    const itemHeight = this._itemHeight();
+    const detailHeights = this._detailHeights();
+    let remaining = position;
+    let previousIndex = 0;
+
+    // Walk past each detail panel that starts above the position
+    for (const index of this.detailIndexes()) {
+      const rowsHeight = (index + 1 - previousIndex) * itemHeight;
+      if (remaining < rowsHeight) break;
+
+      remaining -= rowsHeight;
+      if (remaining < detailHeights[index]) return index;
+
+      remaining -= detailHeights[index];
+      previousIndex = index + 1;
+    }
+
+    return previousIndex + Math.floor(remaining / itemHeight);
+  }
+
+  // Calculate the top offset of an item, including detail panels above it
+  getItemOffset(index: number): number {
+    if (this.isVariableHeight()) {
+      this._heightVersion();
+      return this.heightIndex.offsetOf(index);
+    }
+
+    return index * this._itemHeight() + this.getDetailHeightBefore(index);
   }
 
   // Scroll to a specific item
   scrollToItem(index: number): number {
-    const position = index * this._itemHeight();
+    const position = this.getItemOffset(index);
     this._scrollTop.set(position);
     return position;
   }
@@ -144,6 +668,11 @@ export class VirtualizationService<T = any> {
   reset() {
     this._scrollTop.set(0);
     this._totalItems.set(0);
+    this._detailHeights.set({});
+    this._scrollLeft.set(0);
+    this.items = [];
+    this.measuredHeights.clear();
+    this.rebuildHeightIndex();
   }
 
   // Estimate total height based on sample items
@@ -158,17 +687,23 @@ export class VirtualizationService<T = any> {
 
   // Dynamic height calculation (for variable height items)
   calculateDynamicHeight(items: any[], getItemHeight: (item: any, index: number) => number): number {
-    let totalHeight = 0;
-    const itemHeights: number[] = [];
-    
-    for (let i = 0; i < items.length; i++) {
-      const height = getItemHeight(items[i], i);
-      itemHeights.push(height);
-      totalHeight += height;
+    if (!this.isVariableHeight()) {
+      this._variableHeight.set({
+        enabled: true,
+        defaultHeight: this._itemHeight(),
+        minHeight: 0,
+        maxHeight: Number.POSITIVE_INFINITY
+      });
     }
-    
-    // Store heights for later use if needed
-    return totalHeight;
+
+    // Keep the heights as if they had been measured, so lookups use them
+    this.items = items;
+    this.measuredHeights.clear();
+    items.forEach((item, i) => this.measuredHeights.set(i, this.clampHeight(getItemHeight(item, i))));
+    this._totalItems.set(items.length);
+    this.rebuildHeightIndex();
+
+    return this.heightIndex.total();
   }
 
   // Performance optimization: check if re-render is needed
@@ -180,6 +715,227 @@ export class VirtualizationService<T = any> {
     return Math.abs(newScrollTop - currentScrollTop) >= threshold;
   }
 
+  private averageItemHeight = computed(() => {
+    const count = this._totalItems();
+    if (!this.isVariableHeight() || count === 0) return this._itemHeight();
+
+    this._heightVersion();
+    return this.heightIndex.total() / count || this._itemHeight();
+  });
+
+  // Rebuilds the height index from measured heights, falling back to estimates
+  private rebuildHeightIndex() {
+    const config = this._variableHeight();
+    if (!config?.enabled) return;
+
+    const count = this._totalItems();
+    const detailHeights = this._detailHeights();
+    const heights = new Float64Array(count);
+
+    for (let i = 0; i < count; i++) {
+      const measured = this.measuredHeights.get(i);
+      const base = measured ?? this.clampHeight(
+        config.estimateHeight && i < this.items.length
+          ? config.estimateHeight(this.items[i], i)
+          : config.defaultHeight
+      );
+      heights[i] = base + (detailHeights[i] ?? 0);
+    }
+
+    // Measurements past the end no longer belong to an item
+    this.measuredHeights.forEach((_, index) => {
+      if (index >= count) this.measuredHeights.delete(index);
+    });
+
+    this.heightIndex.build(heights);
+    this._heightVersion.update(v => v + 1);
+  }
+
+  private trackScroll(scrollTop: number) {
+    const now = Date.now();
+    const elapsed = now - this.lastScrollTime;
+    const distance = scrollTop - this._scrollTop();
+    this.lastScrollTime = now;
+
+    if (distance === 0) return;
+    this._scrollDirection.set(distance > 0 ? 'down' : 'up');
+
+    // Smooth the velocity, starting over after a pause in scrolling
+    const instant = Math.abs(distance) / Math.max(elapsed, 16);
+    const previous = elapsed > 300 ? 0 : this._scrollVelocity();
+    this._scrollVelocity.set(previous === 0 ? instant : previous * 0.7 + instant * 0.3);
+  }
+
+  private loadVisiblePages() {
+    const pages = this.getPagesForRange(this.visibleStartIndex(), this.visibleEndIndex());
+
+    pages.forEach(page => {
+      if (this.loadedPages.has(page) || this.pendingPages.has(page)) {
+        if (this.prefetchedPages.delete(page)) {
+          this.updateMetrics({ hits: 1 });
+        }
+        return;
+      }
+
+      this.updateMetrics({ misses: 1 });
+      this.requestPage(page, false);
+    });
+  }
+
+  // Prefetches the pages the viewport is predicted to reach, given direction and velocity
+  private prefetchAhead() {
+    const config = this._predictiveLoading();
+    const direction = this._scrollDirection();
+    if (!config || direction === 'none') return;
+
+    // Stale prefetches behind a reversed scroll are no longer useful
+    this.cancelPrefetchesBehind(direction);
+
+    // Look half a second ahead, but never more than a few viewports for a sudden jump
+    const lookaheadPx = Math.min(this._scrollVelocity() * 500, this.bodyHeight() * 3);
+    const buffer = config.bufferSize;
+    let from: number;
+    let to: number;
+
+    if (direction === 'down') {
+      from = this.visibleEndIndex() + 1;
+      to = this.getItemAtPosition(this._scrollTop() + this.bodyHeight() + lookaheadPx) + buffer;
+    } else {
+      to = this.visibleStartIndex() - 1;
+      from = this.getItemAtPosition(Math.max(0, this._scrollTop() - lookaheadPx)) - buffer;
+    }
+
+    const total = this._totalItems();
+    from = Math.max(0, from);
+    to = total > 0 ? Math.min(total - 1, to) : to;
+    if (to < from) return;
+
+    this.getPagesForRange(from, to).forEach(page => {
+      if (!this.loadedPages.has(page) && !this.pendingPages.has(page)) {
+        this.prefetchedPages.add(page);
+        this.requestPage(page, true);
+      }
+    });
+  }
+
+  private cancelPrefetchesBehind(direction: 'up' | 'down') {
+    const visiblePages = this.getPagesForRange(this.visibleStartIndex(), this.visibleEndIndex());
+    const first = visiblePages[0] ?? 0;
+    const last = visiblePages[visiblePages.length - 1] ?? 0;
+
+    this.pendingPages.forEach((pending, page) => {
+      const behind = direction === 'down' ? page < first : page > last;
+      if (pending.prefetch && behind) {
+        pending.subscription.unsubscribe();
+        this.pendingPages.delete(page);
+        this.prefetchedPages.delete(page);
+        this.updateMetrics({ cancelled: 1 });
+      }
+    });
+  }
+
+  private requestPage(page: number, prefetch: boolean) {
+    const pageSize = this.getPrefetchPageSize();
+    const pending = { subscription: new Subscription(), prefetch };
+    this.pendingPages.set(page, pending);
+    this.updateMetrics(prefetch ? { requests: 1, prefetches: 1 } : { requests: 1 });
+
+    pending.subscription = this.prefetchAdapter!.load({ ...this.prefetchParams, page, pageSize }).subscribe({
+      next: result => {
+        this.pendingPages.delete(page);
+        this.loadedPages.add(page);
+        if (result.totalCount !== this._totalItems()) {
+          this.setTotalItems(result.totalCount);
+        }
+        this._pageLoaded.next({ page, result, prefetched: prefetch });
+      },
+      error: error => {
+        this.pendingPages.delete(page);
+        this.prefetchedPages.delete(page);
+        this._pageError.next({ page, error });
+      }
+    });
+  }
+
+  private cancelPendingPages() {
+    this.pendingPages.forEach(pending => pending.subscription.unsubscribe());
+    this.pendingPages.clear();
+  }
+
+  private getPagesForRange(from: number, to: number): number[] {
+    if (to < from || from < 0) return [];
+
+    const pageSize = this.getPrefetchPageSize();
+    const pages: number[] = [];
+    for (let page = Math.floor(from / pageSize); page <= Math.floor(to / pageSize); page++) {
+      pages.push(page);
+    }
+    return pages;
+  }
+
+  private getPrefetchPageSize(): number {
+    return this.prefetchParams.pageSize || 50;
+  }
+
+  private updateMetrics(delta: Partial<Omit<PrefetchMetrics, 'hitRate'>>) {
+    this._metrics.update(metrics => ({
+      requests: metrics.requests + (delta.requests ?? 0),
+      prefetches: metrics.prefetches + (delta.prefetches ?? 0),
+      hits: metrics.hits + (delta.hits ?? 0),
+      misses: metrics.misses + (delta.misses ?? 0),
+      cancelled: metrics.cancelled + (delta.cancelled ?? 0)
+    }));
+  }
+
+  private getColumnWidth(column: DynamicColumn<T>): number {
+    const resized = this.columnService?.columnWidths()[column.id];
+    if (resized) return resized;
+
+    // Only absolute widths are usable; relative ones such as '20%' fall back to estimates
+    if (typeof column.width === 'number') return column.width;
+    if (typeof column.width === 'string' && /^\d+(\.\d+)?(px)?$/.test(column.width.trim())) {
+      return parseFloat(column.width);
+    }
+
+    const config = this._horizontal();
+    return config?.estimateWidth?.(column) ?? config?.defaultWidth ?? 150;
+  }
+
+  private sumWidths(columns: DynamicColumn<T>[]): number {
+    return columns.reduce((sum, column) => sum + this.getColumnWidth(column), 0);
+  }
+
+  // Binary search for the column that contains the offset
+  private findColumnAt(offsets: number[], position: number): number {
+    let low = 0;
+    let high = offsets.length - 2;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (offsets[mid] <= position) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+
+  private clampHeight(height: number): number {
+    const config = this._variableHeight();
+    if (!config) return height;
+    return Math.min(Math.max(height, config.minHeight), config.maxHeight);
+  }
+
+  private getDetailHeightBefore(index: number): number {
+    const detailHeights = this._detailHeights();
+    let height = 0;
+    for (const detailIndex of this.detailIndexes()) {
+      if (detailIndex >= index) break;
+      height += detailHeights[detailIndex];
+    }
+    return height;
+  }
+
   // Debug information
   getDebugInfo(): any {
     const state = this.state();
@@ -0,0 +1,36 @@
+import { escapeCSV, parseDelimited } from './delimited-text.utils';
+
+describe('parseDelimited', () => {
+  it('splits records and fields', () => {
+    expect(parseDelimited('a,b\nc,d')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('keeps delimiters and escaped quotes inside quoted fields', () => {
+    expect(parseDelimited('"a,b","say ""hi"""')).toEqual([['a,b', 'say "hi"']]);
+  });
+
+  it('opens a quoted field after leading whitespace', () => {
+    expect(parseDelimited('a, "b,c"')).toEqual([['a', 'b,c']]);
+  });
+
+  it('keeps a quote inside an unquoted field', () => {
+    expect(parseDelimited('5" pipe,x')).toEqual([['5" pipe', 'x']]);
+  });
+
+  it('allows quoted fields to span lines', () => {
+    expect(parseDelimited('"line 1\nline 2",x\ny,z')).toEqual([['line 1\nline 2', 'x'], ['y', 'z']]);
+  });
+
+  it('treats CRLF as one line break and ignores a trailing one', () => {
+    expect(parseDelimited('a,b\r\nc,d\r\n')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('splits on the given delimiter', () => {
+    expect(parseDelimited('a\tb,c\n"d\te"\tf', '\t')).toEqual([['a', 'b,c'], ['d\te', 'f']]);
+  });
+
+  it('reads back what escapeCSV writes', () => {
+    const fields = ['plain', 'comma, here', 'quote "x"', 'two\r\nlines'];
+    expect(parseDelimited(fields.map(field => escapeCSV(field)).join(','))).toEqual([fields]);
+  });
+});
@@ -0,0 +1,65 @@
+// ===== Delimited Text =====
+// Shared by CSV export/import and the clipboard's TSV copy/paste
+
+// Quotes a field for CSV or other delimited text such as TSV
+export function escapeCSV(value: string, delimiter: string = ','): string {
+  if (value.includes(delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+// Splits delimited text into records of fields, allowing quoted fields to span lines
+export function parseDelimited(content: string, delimiter: string = ','): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+
+    // A quote opens a field when only whitespace precedes it, as in `a, "b,c"`
+    if (char === '"' && (inQuotes || current.trim() === '')) {
+      if (inQuotes && content[i + 1] === '"') {
+        current += '"';
+        i += 2;
+      } else {
+        if (!inQuotes) current = '';
+        inQuotes = !inQuotes;
+        i++;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      record.push(current);
+      current = '';
+      i++;
+    } else if ((char === '\n' || char === '\r') && !inQuotes) {
+      record.push(current);
+      records.push(record);
+      record = [];
+      current = '';
+      i += char === '\r' && content[i + 1] === '\n' ? 2 : 1;
+    } else {
+      current += char;
+      i++;
+    }
+  }
+
+  // A trailing line break does not start another record
+  if (current !== '' || record.length > 0) {
+    record.push(current);
+    records.push(record);
+  }
+
+  return records;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
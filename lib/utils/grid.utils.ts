@@ -0,0 +1,82 @@
+import { GridAggregateFunction, GridColumn, GridCustomAggregate } from '../interfaces/grid.interface';
+
+// ===== Values =====
+// Shared by the grid state, the pivot engine and the services that read cells
+
+// The column's accessor function or key, falling back to the column id
+export function getCellValue<T>(data: T, column: GridColumn<T>): any {
+  if (column.accessor) {
+    if (typeof column.accessor === 'function') {
+      return column.accessor(data);
+    } else {
+      return (data as any)[column.accessor];
+    }
+  }
+  return (data as any)[column.id];
+}
+
+// Nulls first, then numbers, dates and strings in their natural order
+export function compareCellValues(a: any, b: any): number {
+  if (a == null && b == null) return 0;
+  if (a == null) return -1;
+  if (b == null) return 1;
+
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.localeCompare(b);
+  }
+
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+
+  return String(a).localeCompare(String(b));
+}
+
+// ===== Aggregation =====
+
+// Built-in functions skip null and '' values (and non-numbers for sum/avg); a custom reducer
+// gets every value with its row, and a reducer that throws yields null
+export function aggregateValues<T>(
+  aggregate: GridAggregateFunction | GridCustomAggregate<T>,
+  values: any[],
+  rows: T[]
+): any {
+  if (typeof aggregate !== 'string') {
+    try {
+      return aggregate.reducer(values, rows);
+    } catch (error) {
+      console.error(`Aggregate '${aggregate.name}' failed:`, error);
+      return null;
+    }
+  }
+
+  const present = values.filter(v => v != null && v !== '');
+  const numbers = present.map(v => Number(v)).filter(n => !isNaN(n));
+
+  switch (aggregate) {
+    case 'sum':
+      return numbers.reduce((sum, n) => sum + n, 0);
+    case 'avg':
+      return numbers.length > 0
+        ? numbers.reduce((sum, n) => sum + n, 0) / numbers.length
+        : null;
+    case 'min':
+      return present.length > 0
+        ? present.reduce((min, v) => compareCellValues(v, min) < 0 ? v : min)
+        : null;
+    case 'max':
+      return present.length > 0
+        ? present.reduce((max, v) => compareCellValues(v, max) > 0 ? v : max)
+        : null;
+    case 'count':
+      return present.length;
+    case 'distinctCount':
+      return new Set(present.map(v => v instanceof Date ? v.getTime() : v)).size;
+    default:
+      return null;
+  }
+}
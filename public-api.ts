@@ -14,13 +14,24 @@ export * from './lib/services/virtualization.service';
 export * from './lib/services/column-management.service';
 export * from './lib/services/smart-filtering.service';
 export * from './lib/services/data-source-adapters.service';
+export * from './lib/services/data-source-dialects.service';
+export * from './lib/services/mutation-queue-storage.service';
+export * from './lib/services/remote-cache-store.service';
 export * from './lib/services/export-import.service';
 export * from './lib/services/mobile-touch.service';
 export * from './lib/services/security.service';
+export * from './lib/services/cell-editing.service';
+export * from './lib/services/grid-history.service';
+export * from './lib/services/cell-selection.service';
+export * from './lib/services/clipboard.service';
+export * from './lib/services/grid-navigation.service';
+export * from './lib/services/pivot.service';
 
 // Directives
 export * from './lib/directives/ng-grid.directive';
 export * from './lib/directives/grid-utilities.directive';
+export * from './lib/directives/grid-navigation.directive';
+export * from './lib/directives/virtual-viewport.directive';
 
 // Main module
 export * from './lib/ng-headless-datagrid';